@@ -0,0 +1,41 @@
+import { sanitizeInlineStyle } from '../src/services/svgStyle.ts'
+
+// ─── Casos de regresión del saneado de `style` ───────────────────────
+//
+//   npm run check-svg-styles
+//
+// Estilos de planos reales y de planos hostiles: lo que debe quedar tras el
+// saneado. Sale con código 1 si algún caso no da lo esperado.
+
+interface StyleCase {
+  style: string
+  expected: string
+}
+
+const CASES: StyleCase[] = [
+  // Lo que exporta Inkscape: se conserva la pintura y el texto
+  { style: 'fill:#d9d9d9;fill-opacity:1;stroke:#000000;stroke-width:0.5', expected: 'fill:#d9d9d9;fill-opacity:1;stroke:#000000;stroke-width:0.5' },
+  { style: 'font-size:4px;font-weight:bold;text-anchor:middle;line-height:1.25', expected: 'font-size:4px;font-weight:bold;text-anchor:middle' },
+  { style: 'fill:url(#linearGradient12);stroke:rgb(0, 0, 0)', expected: 'fill:url(#linearGradient12);stroke:rgb(0, 0, 0)' },
+  { style: 'display:inline;visibility:visible;opacity:0.8', expected: 'display:inline;visibility:visible;opacity:0.8' },
+  // Recursos externos, también disfrazados
+  { style: 'fill:red;background-image:url(https://e/x.png)', expected: 'fill:red' },
+  { style: 'background-image:image-set("https://e/x.png" 1x)', expected: '' },
+  { style: 'cursor:image-set("https://e/x.png" 1x), auto', expected: '' },
+  { style: 'background-image:u\\72 l(https://e/x.png)', expected: '' },
+  { style: 'fill:url(https://e/x.svg#a)', expected: '' },
+  { style: 'fill:url("#a")', expected: '' },
+  { style: 'stroke:-webkit-image-set(url(#a) 1x)', expected: '' },
+  { style: 'fill:u/**/rl(https://e/x.png)', expected: '' },
+  { style: 'font-family:\'x\';fill:blue', expected: 'fill:blue' },
+]
+
+let failures = 0
+for (const { style, expected } of CASES) {
+  const actual = sanitizeInlineStyle(style).style
+  if (actual === expected) continue
+  failures++
+  console.error(`✗ ${style}\n    esperado: "${expected}"\n    obtenido: "${actual}"`)
+}
+console.log(`${CASES.length - failures}/${CASES.length} casos correctos`)
+process.exitCode = failures > 0 ? 1 : 0
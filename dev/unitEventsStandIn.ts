@@ -0,0 +1,73 @@
+import type { Plugin } from 'vite'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+// ─── Stand-in de eventos de disponibilidad (solo desarrollo) ─────────
+//
+// Sirve GET /api/public/plan/:tenant/events como Server-Sent Events cuando
+// el backend local todavía no lo implementa. Lee los trasteros reales del
+// backend y cada pocos segundos cambia el estado de uno al azar, para poder
+// probar el recoloreado en vivo y el aviso de trastero reservado.
+//
+// Se activa con DEV_UNIT_EVENTS=mock (en .env.local o en el entorno).
+
+interface StandInOptions {
+  /** Backend al que se piden los trasteros (el mismo que usa el proxy) */
+  target: string
+  /** Cada cuánto se emite un cambio. Default: 8 s */
+  intervalMs?: number
+}
+
+const EVENTS_PATH = /^\/api\/public\/plan\/([^/?]+)\/events(?:\?.*)?$/
+
+async function loadUnits(target: string, tenant: string): Promise<{ id: string; status: string }[]> {
+  try {
+    const res = await fetch(`${target}/api/public/plan/${tenant}`)
+    if (!res.ok) return []
+    type Unit = { id: string; status: string }
+    const json = await res.json() as { storageUnits?: Unit[]; floors?: { storageUnits?: Unit[] }[] }
+    // Centros de varias plantas: los trasteros vienen dentro de cada una
+    if (Array.isArray(json.floors)) return json.floors.flatMap(f => Array.isArray(f.storageUnits) ? f.storageUnits : [])
+    return Array.isArray(json.storageUnits) ? json.storageUnits : []
+  } catch {
+    return []
+  }
+}
+
+export function unitEventsStandIn({ target, intervalMs = 8000 }: StandInOptions): Plugin {
+  return {
+    name: 'unit-events-stand-in',
+    apply: 'serve',
+    configureServer(server) {
+      // Registrado antes del proxy: intercepta solo la ruta de eventos
+      server.middlewares.use((req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const match = req.url?.match(EVENTS_PATH)
+        if (!match) return next()
+        const tenant = match[1]
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        })
+        res.write(': stand-in de eventos de trasteros\n\n')
+
+        let units: { id: string; status: string }[] = []
+        loadUnits(target, tenant).then(list => { units = list })
+
+        const tick = setInterval(() => {
+          if (units.length === 0) return
+          const unit   = units[Math.floor(Math.random() * units.length)]
+          unit.status  = unit.status === 'AVAILABLE' ? 'RESERVED' : 'AVAILABLE'
+          const data   = JSON.stringify({ storageUnitId: unit.id, status: unit.status })
+          res.write(`event: unit-status\ndata: ${data}\n\n`)
+        }, intervalMs)
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000)
+
+        req.on('close', () => {
+          clearInterval(tick)
+          clearInterval(heartbeat)
+        })
+      })
+    },
+  }
+}
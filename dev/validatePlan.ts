@@ -0,0 +1,110 @@
+import { readFile } from 'node:fs/promises'
+import { validatePlan, type PlanUnitRef, type PlanValidationReport } from '../src/services/planValidator.ts'
+
+// ─── Validador de planos (línea de comandos) ─────────────────────────
+//
+//   npm run validate-plan -- <plano.svg> <trasteros.json> [--floor <id>] [--json]
+//
+// trasteros.json puede ser la respuesta de GET /api/public/plan/:tenant
+// (con storageUnits o con floors), una fixture del modo demo o un array de
+// trasteros. Con varias plantas hay que indicar cuál con --floor.
+//
+// Sale con código 1 si hay trasteros sin forma, shapeIds duplicados o
+// coincidencias ambiguas, y con 2 si no se pueden leer los ficheros.
+
+interface CliOptions {
+  svgPath: string
+  unitsPath: string
+  floor: string | null
+  json: boolean
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const positional: string[] = []
+  let floor: string | null = null
+  let json = false
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--json') json = true
+    else if (argv[i] === '--floor') floor = argv[++i] ?? null
+    else positional.push(argv[i])
+  }
+  if (positional.length !== 2) {
+    throw new Error('Uso: validate-plan <plano.svg> <trasteros.json> [--floor <id>] [--json]')
+  }
+  return { svgPath: positional[0], unitsPath: positional[1], floor, json }
+}
+
+type Json = Record<string, unknown>
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+/** Saca la lista de trasteros de cualquiera de los formatos admitidos */
+function readUnitList(raw: unknown, floor: string | null): unknown[] {
+  if (Array.isArray(raw)) return raw
+  if (!isObject(raw)) throw new Error('El JSON de trasteros no es un objeto ni un array')
+  if (isObject(raw.plan)) return readUnitList(raw.plan, floor)
+  if (Array.isArray(raw.floors)) {
+    const floors = raw.floors.filter(isObject)
+    const ids = floors.map(f => String(f.id))
+    const chosen = floor !== null ? floors.find(f => String(f.id) === floor)
+      : floors.length === 1 ? floors[0] : undefined
+    if (!chosen) {
+      throw new Error(floor !== null
+        ? `No hay planta "${floor}". Plantas: ${ids.join(', ')}`
+        : `El plan tiene varias plantas; indica una con --floor (${ids.join(', ')})`)
+    }
+    return Array.isArray(chosen.storageUnits) ? chosen.storageUnits : []
+  }
+  if (Array.isArray(raw.storageUnits)) return raw.storageUnits
+  throw new Error('El JSON no tiene storageUnits ni floors')
+}
+
+function toUnitRefs(list: unknown[]): PlanUnitRef[] {
+  const units: PlanUnitRef[] = []
+  list.forEach((item, i) => {
+    if (isObject(item) && item.id !== undefined && typeof item.shapeId === 'string') {
+      units.push({ id: String(item.id), number: item.number as number | string | undefined, shapeId: item.shapeId })
+    } else {
+      console.warn(`[validate-plan] trastero #${i} sin id o shapeId; se ignora`)
+    }
+  })
+  return units
+}
+
+function printReport(report: PlanValidationReport): void {
+  const s = report.summary
+  console.log(`Trasteros: ${s.units} · formas con id: ${s.shapes} · enlazados: ${s.matched}`)
+  const section = (title: string, lines: string[]) => {
+    if (lines.length === 0) return
+    console.log(`\n${title} (${lines.length})`)
+    for (const line of lines) console.log(`  · ${line}`)
+  }
+  section('Trasteros sin forma en el plano', report.unmatchedUnits.map(u =>
+    `${u.unitId}${u.number !== undefined ? ` (#${u.number})` : ''}: shapeId "${u.shapeId}", probado ${u.tried.join(', ')}`))
+  section('shapeIds compartidos por varios trasteros', report.duplicateShapeIds.map(d =>
+    `${d.shapeId}: ${d.unitIds.join(', ')}`))
+  section('Coincidencias ambiguas', report.ambiguousMatches.map(a =>
+    `${a.unitId}: "${a.shapeId}" encaja con ${a.candidates.join(', ')}; se usa ${a.used}`))
+  section('Ids repetidos en el SVG', report.duplicateSvgIds)
+  section('Formas que no encierran un área', report.openShapes.map(o => `${o.shapeId} (<${o.tag}>) → ${o.unitId}`))
+  section('Formas sin trastero', report.orphanShapes.map(o => `${o.shapeId} (<${o.tag}>)`))
+  console.log(report.ok ? '\nOK' : '\nHay errores de correspondencia')
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const [svgText, unitsText] = await Promise.all([
+    readFile(options.svgPath, 'utf8'),
+    readFile(options.unitsPath, 'utf8'),
+  ])
+  const units = toUnitRefs(readUnitList(JSON.parse(unitsText), options.floor))
+  const report = validatePlan(svgText, units)
+  if (options.json) console.log(JSON.stringify(report, null, 2))
+  else printReport(report)
+  process.exitCode = report.ok ? 0 : 1
+}
+
+main().catch((err: unknown) => {
+  console.error(`[validate-plan] ${err instanceof Error ? err.message : String(err)}`)
+  process.exitCode = 2
+})
@@ -1,7 +1,20 @@
+import { useMemo } from 'react'
 import { ReservationWizard } from './wizard/ReservationWizard'
+import { createApiClient } from './services/api'
+import { ApiClientContext } from './services/apiClientContext'
+import { readTenantFromUrl, type RuntimeConfig } from './config/runtime'
 
-function App() {
-  return <ReservationWizard />
+/** `fetch` permite sustituir el backend (modo demo, ver src/mock/). */
+function App({ config, fetch }: { config: RuntimeConfig; fetch?: typeof globalThis.fetch }) {
+  const client = useMemo(
+    () => createApiClient({ baseUrl: config.apiBase, tenantSlug: readTenantFromUrl(config), fetch }),
+    [config, fetch],
+  )
+  return (
+    <ApiClientContext.Provider value={client}>
+      <ReservationWizard />
+    </ApiClientContext.Provider>
+  )
 }
 
 export default App
@@ -0,0 +1,64 @@
+import type { PlanFloor } from '../types'
+
+interface FloorSwitcherProps {
+  floors: PlanFloor[]
+  activeFloorId: string
+  onSelect: (floorId: string) => void
+  /** Trasteros libres (que cumplen los filtros) por planta */
+  availableByFloor: Map<string, number>
+  /** Trasteros seleccionados por planta; la selección se mantiene al cambiar */
+  selectedByFloor?: Map<string, number>
+  compact?: boolean
+}
+
+/** Pestañas de planta del plano. No se muestra en centros de una sola planta. */
+export function FloorSwitcher({
+  floors,
+  activeFloorId,
+  onSelect,
+  availableByFloor,
+  selectedByFloor,
+  compact = false,
+}: FloorSwitcherProps) {
+  if (floors.length < 2) return null
+
+  return (
+    <div className="flex gap-2 overflow-x-auto" role="group" aria-label="Planta del plano">
+      {floors.map(floor => {
+        const active    = floor.id === activeFloorId
+        const available = availableByFloor.get(floor.id) ?? 0
+        const selected  = selectedByFloor?.get(floor.id) ?? 0
+        return (
+          <button
+            key={floor.id}
+            type="button"
+            onClick={() => onSelect(floor.id)}
+            aria-pressed={active}
+            className={`shrink-0 flex items-center gap-1.5 rounded-xl border font-medium transition-all ${
+              compact ? 'px-3 py-1 text-xs' : 'px-3.5 py-2 text-sm'
+            } ${
+              active
+                ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                : 'bg-white text-gray-700 border-gray-200 hover:border-blue-300 hover:text-blue-600'
+            }`}
+          >
+            {floor.name}
+            <span className={`text-xs ${active ? 'opacity-80' : 'text-gray-400'}`}>
+              {available} libre{available === 1 ? '' : 's'}
+            </span>
+            {selected > 0 && (
+              <span
+                className={`min-w-5 h-5 px-1 rounded-full text-[11px] font-semibold flex items-center justify-center ${
+                  active ? 'bg-white text-blue-700' : 'bg-green-100 text-green-700'
+                }`}
+                aria-label={`${selected} seleccionado${selected === 1 ? '' : 's'}`}
+              >
+                {selected}
+              </span>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react'
 import { Button } from './Button'
+import { useApiClient } from '../services/apiClientContext'
 import type { StorageUnit } from '../types'
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -31,6 +32,7 @@ export function FormularioReserva({
   onSuccess,
   onCancel,
 }: FormularioReservaProps) {
+  const api = useApiClient()
   const [form, setForm] = useState<FormState>({
     firstName: '',
     lastName: '',
@@ -58,13 +60,12 @@ export function FormularioReserva({
     if (!validate() || selectedUnits.length === 0) return
 
     setLoading(true)
-    const { createReservation } = await import('../services/api')
     const reservedIds: string[] = []
     const failedNumbers: number[] = []
 
     for (const unit of selectedUnits) {
       try {
-        await createReservation({
+        await api.createReservation({
           tenantSlug,
           storageUnitId: unit.id,
           firstName: form.firstName.trim(),
@@ -118,7 +119,7 @@ export function FormularioReserva({
           <ul className="text-xs text-gray-500 space-y-0.5 mb-1">
             {selectedUnits.map(u => (
               <li key={u.id}>
-                · #{u.number} — {u.dimensionsLabel} — {u.price} €/mes
+                · #{u.number}{u.floorName && ` (${u.floorName})`} — {u.dimensionsLabel} — {u.price} €/mes
               </li>
             ))}
           </ul>
@@ -1,5 +1,6 @@
 import { useMemo } from 'react'
 import { FormularioReserva } from './FormularioReserva'
+import { PLAN_COLORS } from './planColors'
 import type { StorageUnit } from '../types'
 
 // ─── Props ────────────────────────────────────────────────────────────
@@ -139,7 +140,7 @@ export function PanelLateral({
                   className="flex items-center justify-between text-xs bg-green-50 border border-green-200 rounded-lg px-3 py-1.5"
                 >
                   <span className="font-medium text-green-800">
-                    #{u.number} · {u.dimensionsLabel} · {u.price} €/mes
+                    #{u.number}{u.floorName && ` (${u.floorName})`} · {u.dimensionsLabel} · {u.price} €/mes
                   </span>
                 </li>
               ))}
@@ -154,10 +155,10 @@ export function PanelLateral({
         <div className="pt-3 border-t border-gray-100 mt-2 space-y-1">
           <p className="text-xs font-medium text-gray-500 mb-1">Leyenda</p>
           {[
-            { color: '#D19E02', label: 'Disponible' },
-            { color: '#89D102', label: 'Seleccionado' },
-            { color: '#D14402', label: 'Ocupado / Reservado' },
-            { color: '#A17902', label: 'Fuera de filtro' },
+            { color: PLAN_COLORS.available, label: 'Disponible' },
+            { color: PLAN_COLORS.selected, label: 'Seleccionado' },
+            { color: PLAN_COLORS.occupied, label: 'Ocupado / Reservado' },
+            { color: PLAN_COLORS.filtered, label: 'Fuera de filtro' },
           ].map(({ color, label }) => (
             <div key={label} className="flex items-center gap-2 text-xs text-gray-600">
               <span className="w-3 h-3 rounded-sm inline-block" style={{ backgroundColor: color }} />
@@ -1,67 +1,278 @@
-import { useEffect, useRef, useState } from 'react'
-import { getSvgFullUrl } from '../services/api'
-import type { StorageUnit } from '../types'
+import { useEffect, useId, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
+import { useApiClient } from '../services/apiClientContext'
+import { sanitizeSvg } from '../services/svgSanitizer'
+import { getShapeIdVariants, validatePlan, type PlanValidationReport } from '../services/planValidator'
+import { createRouteFinder, readPlanGeometry } from '../services/wayfinding'
+import { isDebugEnabled } from '../config/runtime'
+import {
+  HEATMAP_FILTERED,
+  HEATMAP_UNAVAILABLE,
+  PATTERN_INK,
+  PLAN_COLORS,
+  type PlanHeatmap,
+  type PlanPattern,
+} from './planColors'
+import { routeMarkup } from './planRoute'
+import { describeUnitAttributes, matchesAttributeFilters, type AttributeFilter } from './unitAttributes'
+import { UNIT_STATUS } from './unitStatusLabels'
+import { MAX_ZOOM, ZOOM_STEP, usePlanZoom, type PlanFrame, type PlanView } from './usePlanZoom'
+import type { PlanLabelMode, StorageUnit } from '../types'
 
 // ─── Colores ─────────────────────────────────────────────────────────
 
-const COLOR_AVAILABLE = '#D19E02' // ámbar dorado  → disponible
-const COLOR_SELECTED  = '#89D102' // verde lima    → seleccionado
-const COLOR_OCCUPIED  = '#D14402' // naranja-rojo  → ocupado / reservado
-const COLOR_FILTERED  = '#A17902' // ámbar oscuro  → fuera del filtro
-
 function getFill(
   unit: StorageUnit,
   filterByDimensions: number | null,
   selectedIds: Set<string>,
   maxPrice: number | null,
+  attributeFilters: AttributeFilter[],
+  heatmap: PlanHeatmap | null = null,
 ): string {
-  if (selectedIds.has(unit.id)) return COLOR_SELECTED
-  if (unit.status !== 'AVAILABLE') return COLOR_OCCUPIED
-  if (filterByDimensions !== null && unit.dimensions !== filterByDimensions) return COLOR_FILTERED
-  if (maxPrice !== null && unit.price > maxPrice) return COLOR_FILTERED
-  return COLOR_AVAILABLE
+  if (selectedIds.has(unit.id)) return PLAN_COLORS.selected
+  if (unit.status !== 'AVAILABLE') return heatmap ? HEATMAP_UNAVAILABLE : PLAN_COLORS.occupied
+  if (!isClickable(unit, filterByDimensions, maxPrice, attributeFilters)) return heatmap ? HEATMAP_FILTERED : PLAN_COLORS.filtered
+  return heatmap ? heatmap.colorOf(unit) : PLAN_COLORS.available
 }
 
 function isClickable(
   unit: StorageUnit,
   filterByDimensions: number | null,
   maxPrice: number | null,
+  attributeFilters: AttributeFilter[],
 ): boolean {
   if (unit.status !== 'AVAILABLE') return false
   if (filterByDimensions !== null && unit.dimensions !== filterByDimensions) return false
   if (maxPrice !== null && unit.price > maxPrice) return false
-  return true
+  return matchesAttributeFilters(unit, attributeFilters)
 }
 
-// ─── Helpers SVG ────────────────────────────────────────────────────
+/** Valor por defecto estable de `attributeFilters` (va en las dependencias de los efectos) */
+const NO_ATTRIBUTE_FILTERS: AttributeFilter[] = []
+
+// ─── Tramas ─────────────────────────────────────────────────────────
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+type FillPattern = Exclude<PlanPattern, 'outline'>
+
+function getPattern(unit: StorageUnit, selected: boolean, clickable: boolean): PlanPattern | null {
+  if (selected) return 'outline'
+  if (unit.status !== 'AVAILABLE') return 'hatch'
+  if (!clickable) return 'dots'
+  return null
+}
+
+/**
+ * Crea los <pattern> de rayado y puntos dentro del SVG y devuelve sus `url()`.
+ * El tamaño va en unidades del plano para que la trama se vea igual en
+ * cualquier SVG y crezca con el zoom.
+ */
+function createPatternDefs(svgEl: SVGSVGElement, prefix: string): Record<FillPattern, string> {
+  const vb   = svgEl.viewBox.baseVal
+  const span = vb && vb.width > 0
+    ? Math.max(vb.width, vb.height)
+    : Math.max(parseFloat(svgEl.getAttribute('width') ?? '0'), parseFloat(svgEl.getAttribute('height') ?? '0'))
+  const size = (span || 800) / 160
+
+  const defs = document.createElementNS(SVG_NS, 'defs')
+  defs.setAttribute('data-plan-pattern', '')
+  const make = (kind: FillPattern, shape: SVGElement) => {
+    const pattern = document.createElementNS(SVG_NS, 'pattern')
+    pattern.setAttribute('id', `${prefix}-${kind}`)
+    pattern.setAttribute('patternUnits', 'userSpaceOnUse')
+    pattern.setAttribute('width', String(size))
+    pattern.setAttribute('height', String(size))
+    if (kind === 'hatch') pattern.setAttribute('patternTransform', 'rotate(45)')
+    pattern.appendChild(shape)
+    defs.appendChild(pattern)
+  }
 
-function getShapeIdVariants(shapeId: string): string[] {
-  const raw = shapeId.trim()
-  if (!raw) return []
-  const variants = new Set<string>()
-  variants.add(raw)
-  variants.add(raw.toUpperCase())
-  const match = raw.match(/^([a-zA-Z]+)\s*0*(\d+)$/)
-  if (match) {
-    const prefix = match[1].toUpperCase()
-    const n = Number(match[2])
-    if (Number.isFinite(n)) {
-      variants.add(`${prefix}${n}`)
-      variants.add(`${prefix}${String(n).padStart(2, '0')}`)
-      variants.add(`${prefix}${String(n).padStart(3, '0')}`)
+  const line = document.createElementNS(SVG_NS, 'rect')
+  line.setAttribute('width', String(size * 0.35))
+  line.setAttribute('height', String(size))
+  line.setAttribute('fill', PATTERN_INK)
+  make('hatch', line)
+
+  const dot = document.createElementNS(SVG_NS, 'circle')
+  dot.setAttribute('cx', String(size / 2))
+  dot.setAttribute('cy', String(size / 2))
+  dot.setAttribute('r', String(size * 0.2))
+  dot.setAttribute('fill', PATTERN_INK)
+  make('dots', dot)
+
+  svgEl.prepend(defs)
+  return { hatch: `url(#${prefix}-hatch)`, dots: `url(#${prefix}-dots)` }
+}
+
+/**
+ * Copia de la forma del trastero, encima de ella, que pinta la trama. Sin
+ * ids ni atributos de interacción: no recibe eventos ni foco.
+ */
+function createPatternOverlay(el: SVGElement, pattern: PlanPattern, fills: Record<FillPattern, string>): SVGElement {
+  const overlay = el.cloneNode(true) as SVGElement
+  for (const node of [overlay, ...overlay.querySelectorAll('*')]) {
+    for (const attr of [...node.attributes]) {
+      const name = attr.name
+      if (name === 'id' || name === 'style' || name === 'tabindex' || name === 'role'
+        || name.startsWith('aria-') || name.startsWith('data-')) {
+        node.removeAttribute(name)
+      }
+    }
+    if (pattern === 'outline') {
+      node.setAttribute('fill', 'none')
+      node.setAttribute('stroke', PATTERN_INK)
+      node.setAttribute('stroke-width', '3')
+      node.setAttribute('vector-effect', 'non-scaling-stroke')
+    } else {
+      node.setAttribute('fill', fills[pattern])
+      node.setAttribute('stroke', 'none')
     }
   }
-  return [...variants]
+  overlay.setAttribute('data-plan-pattern', pattern)
+  overlay.setAttribute('aria-hidden', 'true')
+  overlay.setAttribute('pointer-events', 'none')
+  return overlay
+}
+
+// ─── Accesibilidad ──────────────────────────────────────────────────
+
+/** Lo que lee el lector de pantalla al llegar a un trastero */
+function getUnitLabel(unit: StorageUnit, selected: boolean, clickable: boolean): string {
+  const parts = [`Trastero ${unit.number}`]
+  if (unit.floorName) parts.push(unit.floorName)
+  parts.push(`${unit.dimensionsLabel} (${unit.dimensions} m²)`, `${unit.price} € al mes`)
+  parts.push(...describeUnitAttributes(unit.attributes), UNIT_STATUS[unit.status].label.toLowerCase())
+  if (selected) parts.push('seleccionado')
+  else if (unit.status === 'AVAILABLE' && !clickable) parts.push('fuera del filtro')
+  return parts.join(', ')
+}
+
+type ArrowKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight'
+
+function isArrowKey(key: string): key is ArrowKey {
+  return key === 'ArrowUp' || key === 'ArrowDown' || key === 'ArrowLeft' || key === 'ArrowRight'
+}
+
+/**
+ * Trastero más cercano en la dirección de la flecha. Se mide en pantalla,
+ * así que respeta el giro y el zoom: "derecha" es la derecha que se ve.
+ */
+function findNeighbour(from: Element, candidates: Iterable<Element>, key: ArrowKey): Element | null {
+  const a = from.getBoundingClientRect()
+  const ax = a.left + a.width / 2
+  const ay = a.top + a.height / 2
+  let best: Element | null = null
+  let bestScore = Infinity
+  for (const el of candidates) {
+    if (el === from) continue
+    const r = el.getBoundingClientRect()
+    const dx = r.left + r.width / 2 - ax
+    const dy = r.top + r.height / 2 - ay
+    const [along, across] =
+      key === 'ArrowRight' ? [dx, dy] :
+      key === 'ArrowLeft'  ? [-dx, dy] :
+      key === 'ArrowDown'  ? [dy, dx] : [-dy, dx]
+    if (along <= 1) continue
+    // Se penaliza desviarse del eje para no saltar de fila
+    const score = along + 2 * Math.abs(across)
+    if (score < bestScore) { best = el; bestScore = score }
+  }
+  return best
 }
 
-function findSvgElement(svgEl: Element, shapeId: string): SVGElement | null {
+// ─── Táctil ─────────────────────────────────────────────────────────
+
+/** Mantener pulsado un trastero este tiempo muestra su ficha sin seleccionarlo */
+const LONG_PRESS_MS = 450
+/** Si el dedo se mueve más que esto es un arrastre, no una pulsación larga */
+const LONG_PRESS_SLOP_PX = 8
+
+// ─── Etiquetas ──────────────────────────────────────────────────────
+
+/** Por debajo de este tamaño en pantalla la etiqueta no se lee y se oculta */
+const LABEL_MIN_PX = 8
+
+function getLabelText(unit: StorageUnit, mode: Exclude<PlanLabelMode, 'none'>): string {
+  switch (mode) {
+    case 'number': return String(unit.number)
+    case 'size':   return `${unit.dimensions} m²`
+    case 'price':  return `${unit.price} €`
+  }
+}
+
+/** Etiqueta pintada: la caja se mide una vez y el texto se cambia sin volver a medir */
+interface PlacedLabel {
+  el: SVGElement
+  label: SVGTextElement
+  box: DOMRect
+  text: string
+}
+
+/** Texto y tamaño de letra de una etiqueta ya colocada */
+function setLabelText(placed: PlacedLabel, text: string, rotated: boolean) {
+  const { box, label } = placed
+  // Girado, el texto se lee a lo largo del alto de la caja
+  const along    = rotated ? box.height : box.width
+  const across   = rotated ? box.width : box.height
+  const fontSize = Math.min(across * 0.5, (along * 0.85) / (text.length * 0.6))
+  label.setAttribute('font-size', String(fontSize))
+  label.setAttribute('stroke-width', String(fontSize * 0.18))
+  label.textContent = text
+  placed.text = text
+}
+
+/** Caja de un elemento en las coordenadas de `layer`, con los transform de por medio */
+function getBoxIn(el: SVGGraphicsElement, layer: SVGGraphicsElement): DOMRect | null {
+  const elCtm    = el.getCTM()
+  const layerCtm = layer.getCTM()
+  if (!elCtm || !layerCtm) return null
+  const m = layerCtm.inverse().multiply(elCtm)
+  const b = el.getBBox()
+  const corners = [
+    new DOMPoint(b.x, b.y), new DOMPoint(b.x + b.width, b.y),
+    new DOMPoint(b.x, b.y + b.height), new DOMPoint(b.x + b.width, b.y + b.height),
+  ].map(p => p.matrixTransform(m))
+  const xs = corners.map(p => p.x)
+  const ys = corners.map(p => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return new DOMRect(x, y, Math.max(...xs) - x, Math.max(...ys) - y)
+}
+
+// ─── Helpers SVG ────────────────────────────────────────────────────
+
+/**
+ * Índice id → elemento del SVG, construido una vez al inyectarlo. Con ids
+ * repetidos gana el primero, igual que con querySelector.
+ */
+function indexSvgIds(svgEl: Element): Map<string, SVGElement> {
+  const index = new Map<string, SVGElement>()
+  for (const el of svgEl.querySelectorAll<SVGElement>('[id]')) {
+    if (!index.has(el.id)) index.set(el.id, el)
+  }
+  return index
+}
+
+function findSvgElement(index: Map<string, SVGElement>, shapeId: string): SVGElement | null {
   for (const v of getShapeIdVariants(shapeId)) {
-    const el = svgEl.querySelector(`[id="${v}"]`) as SVGElement | null
+    const el = index.get(v)
     if (el) return el
   }
   return null
 }
 
+/** Lo último pintado en un trastero: si la clave no cambia, no se toca el DOM */
+interface PaintedUnit {
+  el: SVGElement
+  key: string
+  overlay: SVGElement | null
+}
+
+/** Forma de trastero enlazada que contiene `target`, si la hay */
+function unitElementAt(target: EventTarget | null): SVGElement | null {
+  return target instanceof Element ? target.closest<SVGElement>('[data-unit-id]') : null
+}
+
 // ─── Props ───────────────────────────────────────────────────────────
 
 interface PlanoSVGProps {
@@ -69,6 +280,8 @@ interface PlanoSVGProps {
   storageUnits: StorageUnit[]
   filterByDimensions: number | null
   maxPrice?: number | null
+  /** Chips de características activos: lo que no los cumple queda fuera de filtro */
+  attributeFilters?: AttributeFilter[]
   selectedUnits: StorageUnit[]
   onToggleUnit: (unit: StorageUnit) => void
   /**
@@ -82,6 +295,20 @@ interface PlanoSVGProps {
    * El eje largo del SVG pasa a ser la altura, aprovechando mejor la pantalla vertical.
    */
   rotated?: boolean
+  /**
+   * Texto sobre cada trastero: número, tamaño o precio. Crece con el zoom y
+   * se oculta mientras es demasiado pequeño para leerse. Default: 'none'
+   */
+  labelMode?: PlanLabelMode
+  /** Degradado por precio/m², tamaño u oferta; null → colores por estado */
+  heatmap?: PlanHeatmap | null
+  /** Tramas además del color: rayado ocupado, puntos fuera de filtro, contorno seleccionado */
+  patterns?: boolean
+  /**
+   * Trastero que hay que mostrar (buscador): se centra, se amplía si se ve
+   * pequeño y parpadea. Cambiar `nonce` repite la búsqueda del mismo trastero.
+   */
+  locate?: { unitId: string; nonce: number } | null
 }
 
 // ─── Componente ──────────────────────────────────────────────────────
@@ -91,11 +318,19 @@ export function PlanoSVG({
   storageUnits,
   filterByDimensions,
   maxPrice = null,
+  attributeFilters = NO_ATTRIBUTE_FILTERS,
   selectedUnits,
   onToggleUnit,
   fitMode = 'width',
   rotated = false,
+  labelMode = 'none',
+  heatmap = null,
+  patterns = false,
+  locate = null,
 }: PlanoSVGProps) {
+  const { getSvgFullUrl } = useApiClient()
+  // Prefijo de los ids de las tramas: único aunque haya varios planos en la página
+  const patternPrefix = `plan-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
   const containerRef  = useRef<HTMLDivElement>(null)
   const svgHostRef    = useRef<HTMLDivElement>(null)
   const svgNaturalRef = useRef<{ w: number; h: number } | null>(null)
@@ -104,10 +339,46 @@ export function PlanoSVG({
   const [loadError, setLoadError]       = useState<string | null>(null)
   const [matchWarning, setMatchWarning] = useState<string | null>(null)
   const [tooltip, setTooltip]           = useState<{ unit: StorageUnit; x: number; y: number } | null>(null)
+  /** Texto de la región aria-live */
+  const [announcement, setAnnouncement] = useState('')
+  /** Ficha del trastero tocado (táctil): el primer toque informa, no selecciona */
+  const [sheetUnitId, setSheetUnitId]   = useState<string | null>(null)
+
+  // Ids del SVG inyectado y lo último pintado en cada trastero (para repintar solo lo que cambia)
+  const shapeIndexRef  = useRef(new Map<string, SVGElement>())
+  const paintedRef     = useRef(new Map<string, PaintedUnit>())
+  const patternUrlsRef = useRef<Record<FillPattern, string> | null>(null)
+  // Trasteros enlazados en el SVG y el que tiene el tabindex 0 (roving tabindex)
+  const unitElsRef     = useRef(new Map<string, SVGElement>())
+  const unitsByIdRef   = useRef(new Map<string, StorageUnit>())
+  const activeUnitRef  = useRef<string | null>(null)
+  const toggleRef      = useRef<(unit: StorageUnit) => void>(() => {})
+  // Último tipo de puntero y si la pulsación en curso acabó en pulsación larga
+  const pointerTypeRef = useRef('mouse')
+  const longPressedRef = useRef(false)
+  // Capa y etiquetas pintadas; la versión de la capa avisa de que hay que
+  // colocarlas y la de las etiquetas, de que hay que recalcular cuáles se ven
+  const labelLayerRef  = useRef<SVGGElement | null>(null)
+  const labelsRef      = useRef(new Map<string, PlacedLabel>())
+  const [labelLayerVersion, setLabelLayerVersion] = useState(0)
+  const [labelsVersion, setLabelsVersion] = useState(0)
+
+  const hasSvg = svgContent !== null
+  const { view, animated, frame, zoomBy, reset: resetZoom, centerOn, revealRect, showRect, setFrame } = usePlanZoom(containerRef, {
+    ready: hasSvg,
+    // En la página el plano convive con el scroll; en el modal la rueda es solo del plano
+    wheelNeedsModifier: fitMode !== 'contain',
+  })
+  // Miniatura para el minimapa (ya saneada; además un <img> no ejecuta nada del SVG)
+  const minimapUrl = useMemo(
+    () => svgContent ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgContent)}` : null,
+    [svgContent],
+  )
 
   // Refs para event handlers — siempre con el valor más reciente
   const filterRef    = useRef(filterByDimensions)
   const maxPriceRef  = useRef(maxPrice)
+  const attributesRef = useRef(attributeFilters)
   const onToggleRef  = useRef(onToggleUnit)
   const fitModeRef   = useRef(fitMode)
   const rotatedRef   = useRef(rotated)
@@ -116,6 +387,8 @@ export function PlanoSVG({
   onToggleRef.current = onToggleUnit
   fitModeRef.current  = fitMode
   rotatedRef.current  = rotated
+  // Solo lo lee el enlace de trasteros (primer trastero con tabindex): basta tras el render
+  useEffect(() => { attributesRef.current = attributeFilters }, [attributeFilters])
 
   // ── applyFit ─────────────────────────────────────────────────────
   // Almacenada en ref para que ResizeObserver llame siempre a la versión más reciente.
@@ -173,6 +446,12 @@ export function PlanoSVG({
       // no crea flow height por ser absolute).
       if (mode !== 'contain') container.style.height = `${rW}px`
 
+      setFrame({
+        box: { x: offsetX, y: offsetY, w: rH, h: rW },
+        width: availW,
+        height: availH > 0 ? availH : rW,
+      })
+
     } else {
       // ── Sin rotación ─────────────────────────────────────────────
       host.style.position        = ''
@@ -189,8 +468,12 @@ export function PlanoSVG({
         ? Math.min(availW / nat.w, availH / nat.h)
         : availW / nat.w
 
-      svgEl.setAttribute('width',  String(Math.round(nat.w * scale)))
-      svgEl.setAttribute('height', String(Math.round(nat.h * scale)))
+      const w = Math.round(nat.w * scale)
+      const h = Math.round(nat.h * scale)
+      svgEl.setAttribute('width',  String(w))
+      svgEl.setAttribute('height', String(h))
+
+      setFrame({ box: { x: 0, y: 0, w, h }, width: availW, height: availH > 0 ? availH : h })
     }
   }
 
@@ -218,8 +501,12 @@ export function PlanoSVG({
       })
       .then(text => {
         if (cancelled) return
-        if (!text.includes('<svg')) throw new Error('La respuesta no contiene un SVG válido')
-        setSvgContent(text)
+        // Nunca se inyecta el texto tal cual: un SVG puede llevar scripts o cargar recursos
+        const { svg, removed } = sanitizeSvg(text)
+        if (removed.length > 0) {
+          console.warn(`[PlanoSVG] Se han quitado ${removed.length} elemento(s) o atributo(s) no permitidos del plano:`, removed)
+        }
+        setSvgContent(svg)
       })
       .catch(err => {
         if (cancelled) return
@@ -227,7 +514,7 @@ export function PlanoSVG({
       })
 
     return () => { cancelled = true }
-  }, [svgUrl])
+  }, [svgUrl, getSvgFullUrl])
 
   // ── 2. Inyectar SVG, guardar dimensiones naturales y escalar ────
   useEffect(() => {
@@ -235,8 +522,12 @@ export function PlanoSVG({
     const container = containerRef.current
     if (!host || !svgContent) return
 
-    host.innerHTML = svgContent
+    host.innerHTML = svgContent // ya saneado en la carga
     svgNaturalRef.current = null
+    const injected = host.querySelector('svg')
+    shapeIndexRef.current = injected ? indexSvgIds(injected) : new Map()
+    paintedRef.current.clear()
+    patternUrlsRef.current = null
 
     requestAnimationFrame(() => {
       const svgEl = host.querySelector('svg') as SVGSVGElement | null
@@ -255,20 +546,27 @@ export function PlanoSVG({
   }, [svgContent])
 
   // ── 3. ResizeObserver — reescala el SVG cuando el contenedor cambia de tamaño
+  // El contenedor no existe hasta que el SVG se ha cargado.
   useEffect(() => {
     const container = containerRef.current
-    if (!container) return
+    if (!hasSvg || !container) return
     const ro = new ResizeObserver(() => applyFitRef.current())
     ro.observe(container)
     return () => ro.disconnect()
-  }, [])
+  }, [hasSvg])
 
   // ── 3b. Re-aplicar cuando cambia la rotación o el fitMode ────────
+  // El zoom se descarta: el plano cambia de orientación o de tamaño.
   useEffect(() => {
+    resetZoom(false)
     applyFitRef.current()
-  }, [rotated, fitMode])
+  }, [rotated, fitMode, resetZoom])
 
-  // ── 4. Aplicar colores + eventos ────────────────────────────────
+  // ── 4. Enlazar trasteros con sus formas ─────────────────────────
+  // Solo cuando cambia el plano o el inventario: las formas salen del índice
+  // de ids, sin recorrer el SVG. Los mapas se rehacen, pero el DOM solo se
+  // toca en las formas que se enlazan o se sueltan (un cambio de estado en
+  // vivo no escribe nada aquí).
   useEffect(() => {
     const host = svgHostRef.current
     if (!host || !svgContent) return
@@ -277,45 +575,469 @@ export function PlanoSVG({
       const svgEl = host.querySelector('svg')
       if (!svgEl) return
 
-      const selectedIds = new Set(selectedUnits.map(u => u.id))
       let matched = 0
       const missing: string[] = []
+      const index = shapeIndexRef.current
+      const unitEls = unitElsRef.current
+      const unitsById = unitsByIdRef.current
+      const previous = new Map(unitEls)
+      unitEls.clear()
+      unitsById.clear()
+
+      svgEl.setAttribute('role', 'group')
+      svgEl.setAttribute('aria-label', 'Plano de trasteros. Usa las flechas para moverte entre trasteros y Enter o Espacio para seleccionar.')
 
       for (const unit of storageUnits) {
-        const el = findSvgElement(svgEl, unit.shapeId)
+        const el = findSvgElement(index, unit.shapeId)
         if (!el) { missing.push(unit.shapeId); continue }
         matched++
-
-        const fill = getFill(unit, filterByDimensions, selectedIds, maxPrice)
-        el.setAttribute('fill', fill)
-        el.style.fill       = fill
+        unitEls.set(unit.id, el)
+        unitsById.set(unit.id, unit)
+        if (previous.get(unit.id) === el) continue
+        // Los eventos delegados y el doble toque encuentran el trastero por aquí
+        el.dataset.unitId = unit.id
+        el.setAttribute('role', 'button')
+        el.setAttribute('tabindex', '-1')
         el.style.transition = 'fill 0.2s ease'
-        el.style.cursor     = isClickable(unit, filterByDimensions, maxPrice) ? 'pointer' : 'default'
+      }
 
-        el.onclick = (ev: MouseEvent) => {
-          ev.stopPropagation()
-          if (!isClickable(unit, filterRef.current, maxPriceRef.current)) return
-          onToggleRef.current(unit)
-        }
-        el.onmouseenter = (ev: MouseEvent) => setTooltip({ unit, x: ev.clientX, y: ev.clientY })
-        el.onmousemove  = (ev: MouseEvent) =>
-          setTooltip(prev => prev ? { ...prev, x: ev.clientX, y: ev.clientY } : null)
-        el.onmouseleave = () => setTooltip(null)
+      // Formas que ya no corresponden a ningún trastero (o ahora a otro)
+      for (const [id, el] of previous) {
+        if (unitEls.get(id) === el || el.dataset.unitId !== id) continue
+        delete el.dataset.unitId
+        el.removeAttribute('role')
+        el.removeAttribute('tabindex')
+        el.style.transition = ''
+      }
+
+      // Trasteros que ya no están en el inventario: fuera su trama
+      const painted = paintedRef.current
+      for (const [id, last] of painted) {
+        if (unitEls.get(id) === last.el) continue
+        last.overlay?.remove()
+        painted.delete(id)
       }
 
+      // Roving tabindex: un único trastero en el orden de tabulación
+      if (!activeUnitRef.current || !unitEls.has(activeUnitRef.current)) {
+        const first = storageUnits.find(u => unitEls.has(u.id) && isClickable(u, filterRef.current, maxPriceRef.current, attributesRef.current))
+          ?? storageUnits.find(u => unitEls.has(u.id))
+        activeUnitRef.current = first?.id ?? null
+      }
+      const activeEl = activeUnitRef.current ? unitEls.get(activeUnitRef.current) : undefined
+      if (activeEl && activeEl.getAttribute('tabindex') !== '0') activeEl.setAttribute('tabindex', '0')
+
       if (storageUnits.length > 0 && matched === 0) {
         setMatchWarning(
           `Plano cargado pero ningún trastero coincide. IDs: ${storageUnits.slice(0, 5).map(u => u.shapeId).join(', ')}`
         )
       } else if (missing.length > 0) {
-        setMatchWarning(`${missing.length} trastero(s) sin correspondencia en el plano`)
+        setMatchWarning(`${missing.length} trastero(s) sin correspondencia en el plano (detalle con ?debug=plan)`)
       } else {
         setMatchWarning(null)
       }
     })
 
     return () => cancelAnimationFrame(frame)
-  }, [svgContent, storageUnits, filterByDimensions, maxPrice, selectedUnits])
+  }, [svgContent, storageUnits])
+
+  // ── 4a. Colores, tramas y estado accesible ──────────────────────
+  // Cada trastero guarda una clave con lo que se le pintó; solo se toca el
+  // DOM de los que cambian (con 1.000+ trasteros, un click cambia uno o dos).
+  useEffect(() => {
+    const host = svgHostRef.current
+    if (!host || !svgContent) return
+
+    const frame = requestAnimationFrame(() => {
+      const svgEl = host.querySelector('svg')
+      if (!svgEl) return
+
+      const selectedIds = new Set(selectedUnits.map(u => u.id))
+      toggleRef.current = (unit: StorageUnit) => {
+        if (!isClickable(unit, filterRef.current, maxPriceRef.current, attributeFilters)) {
+          setAnnouncement(`Trastero ${unit.number}: ${unit.status === 'AVAILABLE' ? 'fuera del filtro' : UNIT_STATUS[unit.status].label.toLowerCase()}`)
+          return
+        }
+        const willSelect = !selectedIds.has(unit.id)
+        const count = selectedIds.size + (willSelect ? 1 : -1)
+        onToggleRef.current(unit)
+        setAnnouncement(
+          `Trastero ${unit.number} ${willSelect ? 'seleccionado' : 'quitado de la selección'}. ` +
+          `${count} trastero${count === 1 ? '' : 's'} seleccionado${count === 1 ? '' : 's'}.`
+        )
+      }
+
+      // Los <pattern> se crean una vez por plano, la primera vez que hacen falta
+      if (patterns && !patternUrlsRef.current) patternUrlsRef.current = createPatternDefs(svgEl, patternPrefix)
+      const patternFills = patterns ? patternUrlsRef.current : null
+
+      const painted = paintedRef.current
+      for (const [id, el] of unitElsRef.current) {
+        const unit = unitsByIdRef.current.get(id)
+        if (!unit) continue
+        const clickable = isClickable(unit, filterByDimensions, maxPrice, attributeFilters)
+        const selected  = selectedIds.has(unit.id)
+        const fill      = getFill(unit, filterByDimensions, selectedIds, maxPrice, attributeFilters, heatmap)
+        const pattern   = patternFills ? getPattern(unit, selected, clickable) : null
+        const label     = getUnitLabel(unit, selected, clickable)
+        const key       = `${fill}|${pattern}|${clickable}|${selected}|${label}`
+
+        const last = painted.get(id)
+        if (last?.el === el && last.key === key) continue
+
+        el.setAttribute('fill', fill)
+        el.style.fill   = fill
+        el.style.cursor = clickable ? 'pointer' : 'default'
+        el.setAttribute('aria-label', label)
+        el.setAttribute('aria-pressed', String(selected))
+        if (clickable) el.removeAttribute('aria-disabled')
+        else el.setAttribute('aria-disabled', 'true')
+
+        last?.overlay?.remove()
+        const overlay = pattern && patternFills ? createPatternOverlay(el, pattern, patternFills) : null
+        if (overlay) el.after(overlay)
+        painted.set(id, { el, key, overlay })
+      }
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [svgContent, storageUnits, filterByDimensions, maxPrice, attributeFilters, selectedUnits, heatmap, patterns, patternPrefix])
+
+  // ── 4b. Eventos de los trasteros, delegados en el <svg> ─────────
+  // Un listener por tipo para todo el plano; el trastero se saca del
+  // `data-unit-id` de la forma y los datos de los refs.
+  useEffect(() => {
+    const svgEl = svgContent ? svgHostRef.current?.querySelector('svg') : null
+    if (!svgEl) return
+
+    const unitAt = (target: EventTarget | null) => {
+      const el = unitElementAt(target)
+      const unit = el ? unitsByIdRef.current.get(el.dataset.unitId ?? '') : undefined
+      return el && unit && unitElsRef.current.get(unit.id) === el ? { el, unit } : null
+    }
+    let hovered: SVGElement | null = null
+
+    const onClick = (ev: MouseEvent) => {
+      const hit = unitAt(ev.target)
+      if (!hit) return
+      ev.stopPropagation()
+      if (longPressedRef.current) {
+        longPressedRef.current = false
+        return
+      }
+      // En táctil no hay hover: el primer toque abre la ficha con el botón Seleccionar
+      if (pointerTypeRef.current === 'touch') setSheetUnitId(hit.unit.id)
+      else toggleRef.current(hit.unit)
+    }
+    const onKeyDown = (ev: KeyboardEvent) => {
+      const hit = unitAt(ev.target)
+      if (!hit) return
+      if (ev.key === 'Enter' || ev.key === ' ') {
+        ev.preventDefault()
+        toggleRef.current(hit.unit)
+      } else if (isArrowKey(ev.key)) {
+        ev.preventDefault()
+        const next = findNeighbour(hit.el, unitElsRef.current.values(), ev.key)
+        if (next instanceof SVGElement) next.focus({ preventScroll: true })
+      }
+    }
+    const onMouseOver = (ev: MouseEvent) => {
+      const hit = unitAt(ev.target)
+      if (!hit || hit.el === hovered) return
+      hovered = hit.el
+      // Los eventos de ratón emulados tras un toque no deben dejar el tooltip abierto
+      if (pointerTypeRef.current !== 'touch') setTooltip({ unit: hit.unit, x: ev.clientX, y: ev.clientY })
+    }
+    const onMouseMove = (ev: MouseEvent) => {
+      if (hovered) setTooltip(prev => prev ? { ...prev, x: ev.clientX, y: ev.clientY } : null)
+    }
+    const onMouseOut = (ev: MouseEvent) => {
+      // Pasar de la forma a uno de sus hijos no es salir del trastero
+      if (!hovered || (ev.relatedTarget instanceof Node && hovered.contains(ev.relatedTarget))) return
+      hovered = null
+      setTooltip(null)
+    }
+    const onFocusIn = (ev: FocusEvent) => {
+      const hit = unitAt(ev.target)
+      if (!hit) return
+      const { el, unit } = hit
+      const previous = activeUnitRef.current
+      if (previous !== unit.id) {
+        unitElsRef.current.get(previous ?? '')?.setAttribute('tabindex', '-1')
+        el.setAttribute('tabindex', '0')
+        activeUnitRef.current = unit.id
+      }
+      // Con ratón o dedo ya hay hover y el propio click; solo el foco de teclado se resalta
+      if (!el.matches(':focus-visible')) return
+      el.style.outline       = '3px solid var(--color-blue-700)'
+      el.style.outlineOffset = '2px'
+      const rect = el.getBoundingClientRect()
+      revealRect(rect)
+      setTooltip({ unit, x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 })
+    }
+    const onFocusOut = (ev: FocusEvent) => {
+      const el = unitElementAt(ev.target)
+      if (!el) return
+      el.style.outline       = ''
+      el.style.outlineOffset = ''
+      setTooltip(prev => prev?.unit.id === el.dataset.unitId ? null : prev)
+    }
+
+    svgEl.addEventListener('click', onClick)
+    svgEl.addEventListener('keydown', onKeyDown)
+    svgEl.addEventListener('mouseover', onMouseOver)
+    svgEl.addEventListener('mousemove', onMouseMove)
+    svgEl.addEventListener('mouseout', onMouseOut)
+    svgEl.addEventListener('focusin', onFocusIn)
+    svgEl.addEventListener('focusout', onFocusOut)
+    return () => {
+      svgEl.removeEventListener('click', onClick)
+      svgEl.removeEventListener('keydown', onKeyDown)
+      svgEl.removeEventListener('mouseover', onMouseOver)
+      svgEl.removeEventListener('mousemove', onMouseMove)
+      svgEl.removeEventListener('mouseout', onMouseOut)
+      svgEl.removeEventListener('focusin', onFocusIn)
+      svgEl.removeEventListener('focusout', onFocusOut)
+    }
+  }, [svgContent, revealRect])
+
+  // ── 4c. Etiquetas sobre el plano ────────────────────────────────
+  // Forman parte del SVG, así que escalan con el ajuste y con el zoom. La
+  // capa (y la medida de cada caja) depende solo del plano, el modo y el giro.
+  useEffect(() => {
+    const host = svgHostRef.current
+    if (!host || !svgContent || labelMode === 'none') return
+
+    const labels = labelsRef.current
+    let layer: SVGGElement | null = null
+    const frame = requestAnimationFrame(() => {
+      const svgEl = host.querySelector('svg')
+      if (!svgEl) return
+      layer = document.createElementNS(SVG_NS, 'g')
+      layer.setAttribute('aria-hidden', 'true')
+      layer.setAttribute('pointer-events', 'none')
+      svgEl.appendChild(layer)
+      labelLayerRef.current = layer
+      setLabelLayerVersion(v => v + 1)
+    })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      layer?.remove()
+      labelLayerRef.current = null
+      labels.clear()
+    }
+  }, [svgContent, labelMode, rotated])
+
+  // Con cada cambio del inventario solo se toca el texto de las etiquetas que
+  // cambian; se miden únicamente los trasteros que aún no tenían etiqueta.
+  useEffect(() => {
+    if (labelMode === 'none') return
+
+    const frame = requestAnimationFrame(() => {
+      const layer = labelLayerRef.current
+      if (!layer) return
+      const labels = labelsRef.current
+      const seen = new Set<string>()
+      let changed = false
+
+      for (const unit of storageUnits) {
+        const el = unitElsRef.current.get(unit.id)
+        if (!(el instanceof SVGGraphicsElement)) continue
+        const text = getLabelText(unit, labelMode)
+        const placed = labels.get(unit.id)
+
+        if (placed?.el === el) {
+          seen.add(unit.id)
+          if (placed.text === text) continue
+          setLabelText(placed, text, rotated)
+          changed = true
+          continue
+        }
+
+        placed?.label.remove()
+        labels.delete(unit.id)
+        const box = getBoxIn(el, layer)
+        if (!box || box.width <= 0 || box.height <= 0) continue
+        const cx = box.x + box.width / 2
+        const cy = box.y + box.height / 2
+
+        const label = document.createElementNS(SVG_NS, 'text')
+        label.setAttribute('x', String(cx))
+        label.setAttribute('y', String(cy))
+        label.setAttribute('font-weight', '600')
+        label.setAttribute('text-anchor', 'middle')
+        label.setAttribute('dominant-baseline', 'central')
+        label.setAttribute('fill', '#1f2937')
+        label.setAttribute('stroke', '#ffffff')
+        label.setAttribute('paint-order', 'stroke')
+        // El host gira -90°: la etiqueta gira al revés para leerse derecha
+        if (rotated) label.setAttribute('transform', `rotate(90 ${cx} ${cy})`)
+        const next: PlacedLabel = { el, label, box, text: '' }
+        setLabelText(next, text, rotated)
+        layer.appendChild(label)
+        labels.set(unit.id, next)
+        seen.add(unit.id)
+        changed = true
+      }
+
+      // Trasteros que ya no están en el inventario o no se enlazan
+      for (const [id, placed] of labels) {
+        if (seen.has(id)) continue
+        placed.label.remove()
+        labels.delete(id)
+        changed = true
+      }
+      if (changed) setLabelsVersion(v => v + 1)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [storageUnits, labelLayerVersion, labelMode, rotated])
+
+  // ── 4d. Ocultar las etiquetas que no se leen a este zoom ────────
+  useEffect(() => {
+    const nat = svgNaturalRef.current
+    if (!frame || !nat) return
+    // Girado, el ancho natural del SVG es la altura mostrada
+    const pxPerUnit = ((rotated ? frame.box.h : frame.box.w) / nat.w) * view.scale
+    for (const { label } of labelsRef.current.values()) {
+      const size = Number(label.getAttribute('font-size'))
+      if (size * pxPerUnit < LABEL_MIN_PX) label.setAttribute('display', 'none')
+      else label.removeAttribute('display')
+    }
+  }, [labelsVersion, frame, view.scale, rotated])
+
+  // ── 4e. Depuración (?debug=plan): informe de correspondencia ───
+  const debugPlan = useMemo(() => isDebugEnabled('plan'), [])
+  const debugReport = useMemo(
+    () => debugPlan && svgContent ? validatePlan(svgContent, storageUnits) : null,
+    [debugPlan, svgContent, storageUnits],
+  )
+
+  // Las formas con pinta de trastero que nadie usa se marcan en el plano
+  useEffect(() => {
+    if (!debugReport) return
+    console.info('[PlanoSVG] Informe del plano:', debugReport)
+    const marked = debugReport.orphanShapes
+      .map(o => shapeIndexRef.current.get(o.shapeId))
+      .filter((el): el is SVGElement => el !== undefined)
+    for (const el of marked) el.style.outline = '2px dashed #db2777'
+    return () => {
+      for (const el of marked) el.style.outline = ''
+    }
+  }, [debugReport])
+
+  // ── 4f. Cómo llegar: ruta de la entrada a cada seleccionado ───
+  // Solo si el plano tiene PUERTA y PASILLO (o una red RECORRIDO).
+  const routeFinder = useMemo(() => {
+    if (!svgContent) return null
+    try { return createRouteFinder(readPlanGeometry(svgContent)) }
+    catch { return null }
+  }, [svgContent])
+
+  useEffect(() => {
+    const svgEl = svgContent ? svgHostRef.current?.querySelector('svg') : null
+    if (!svgEl || !routeFinder) return
+    const onFloor = new Set(storageUnits.map(u => u.id))
+    const routes = selectedUnits
+      .filter(u => onFloor.has(u.id))
+      .map(u => routeFinder(u.shapeId))
+      .filter(points => points !== null)
+    if (routes.length === 0) return
+    svgEl.insertAdjacentHTML('beforeend', routeMarkup(routes, 'var(--color-blue-600)'))
+    const layer = svgEl.lastElementChild
+    return () => layer?.remove()
+  }, [svgContent, storageUnits, selectedUnits, routeFinder])
+
+  // ── 4g. Buscador: centrar y resaltar un trastero ───────────────
+  // En un rAF para que corra después del enlace (4) y del primer ajuste (2).
+  useEffect(() => {
+    if (!locate || !svgContent) return
+    let flash: Animation | null = null
+    const frameId = requestAnimationFrame(() => {
+      const el = unitElsRef.current.get(locate.unitId)
+      const unit = unitsByIdRef.current.get(locate.unitId)
+      if (!el || !unit) return
+      showRect(el.getBoundingClientRect())
+      if (!window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+        flash = el.animate([{ opacity: 1 }, { opacity: 0.15 }, { opacity: 1 }], { duration: 450, iterations: 3 })
+      }
+      setAnnouncement(`Trastero ${unit.number} localizado en el plano: ${UNIT_STATUS[unit.status].label.toLowerCase()}`)
+    })
+    return () => {
+      cancelAnimationFrame(frameId)
+      flash?.cancel()
+    }
+  }, [locate, svgContent, showRect])
+
+  // ── 5. Táctil: pulsación larga = vista previa ──────────────────
+  useEffect(() => {
+    const container = containerRef.current
+    if (!hasSvg || !container) return
+
+    let press: { pointerId: number; x: number; y: number; timer: ReturnType<typeof setTimeout> } | null = null
+    let previewing = false
+
+    const cancelPress = () => {
+      if (press) clearTimeout(press.timer)
+      press = null
+    }
+
+    const onPointerDown = (ev: PointerEvent) => {
+      pointerTypeRef.current = ev.pointerType
+      longPressedRef.current = false
+      cancelPress()
+      if (ev.pointerType !== 'touch' || !ev.isPrimary) return
+      const el = unitElementAt(ev.target)
+      const unit = el ? unitsByIdRef.current.get(el.dataset.unitId ?? '') : undefined
+      if (!el || !unit) return
+      press = {
+        pointerId: ev.pointerId,
+        x: ev.clientX,
+        y: ev.clientY,
+        timer: setTimeout(() => {
+          press = null
+          previewing = true
+          longPressedRef.current = true
+          const rect = el.getBoundingClientRect()
+          // Encima del dedo, en coordenadas de pantalla: vale igual con el plano girado
+          setTooltip({ unit, x: rect.left + rect.width / 2 - 12, y: Math.max(8, rect.top - 96) })
+        }, LONG_PRESS_MS),
+      }
+    }
+    const onPointerMove = (ev: PointerEvent) => {
+      if (ev.pointerType === 'mouse') pointerTypeRef.current = 'mouse'
+      if (press && ev.pointerId === press.pointerId
+        && Math.hypot(ev.clientX - press.x, ev.clientY - press.y) > LONG_PRESS_SLOP_PX) {
+        cancelPress()
+      }
+    }
+    const onPointerEnd = () => {
+      cancelPress()
+      if (previewing) {
+        previewing = false
+        setTooltip(null)
+      }
+    }
+    // Sin menú contextual del navegador al mantener pulsado un trastero
+    const onContextMenu = (ev: MouseEvent) => {
+      if (pointerTypeRef.current === 'touch' && unitElementAt(ev.target)) ev.preventDefault()
+    }
+
+    container.addEventListener('pointerdown', onPointerDown)
+    container.addEventListener('pointermove', onPointerMove)
+    container.addEventListener('pointerup', onPointerEnd)
+    container.addEventListener('pointercancel', onPointerEnd)
+    container.addEventListener('contextmenu', onContextMenu)
+    return () => {
+      cancelPress()
+      container.removeEventListener('pointerdown', onPointerDown)
+      container.removeEventListener('pointermove', onPointerMove)
+      container.removeEventListener('pointerup', onPointerEnd)
+      container.removeEventListener('pointercancel', onPointerEnd)
+      container.removeEventListener('contextmenu', onContextMenu)
+    }
+  }, [hasSvg])
 
   // ── Render ──────────────────────────────────────────────────────
 
@@ -339,6 +1061,8 @@ export function PlanoSVG({
     )
   }
 
+  const sheetUnit = sheetUnitId ? storageUnits.find(u => u.id === sheetUnitId) ?? null : null
+
   return (
     <div className={fitMode === 'contain' ? 'h-full flex flex-col gap-1' : 'space-y-1.5'}>
       {matchWarning && (
@@ -350,12 +1074,57 @@ export function PlanoSVG({
       {/* Contenedor — sin scroll; en modo contain crece para llenar el padre */}
       <div
         ref={containerRef}
-        className={`w-full rounded-xl bg-gray-50 overflow-hidden relative${fitMode === 'contain' ? ' flex-1 min-h-0' : ''}`}
+        className={`w-full rounded-xl bg-gray-50 overflow-hidden relative select-none${fitMode === 'contain' ? ' flex-1 min-h-0' : ''}${view.scale > 1 ? ' cursor-grab active:cursor-grabbing' : ''}`}
+        // Sin zoom, en la página el dedo sigue haciendo scroll vertical
+        style={{ touchAction: fitMode === 'contain' || view.scale > 1 ? 'none' : 'pan-y' }}
+        // Tocar fuera de un trastero cierra la ficha (los trasteros paran la propagación)
+        onClick={ev => {
+          if (!(ev.target as Element).closest('[data-plan-controls]')) setSheetUnitId(null)
+        }}
       >
-        {/* svgHostRef: React no toca este div; el SVG se inyecta y rota via JS */}
-        <div ref={svgHostRef} />
+        {/* Capa de zoom: se transforma por encima del ajuste y el giro del host */}
+        <div
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: '0 0',
+            transition: animated ? 'transform 0.2s ease' : undefined,
+          }}
+        >
+          {/* svgHostRef: React no toca este div; el SVG se inyecta y rota via JS */}
+          <div ref={svgHostRef} />
+        </div>
+
+        {sheetUnit ? (
+          <UnitSheet
+            unit={sheetUnit}
+            selected={selectedUnits.some(u => u.id === sheetUnit.id)}
+            clickable={isClickable(sheetUnit, filterByDimensions, maxPrice, attributeFilters)}
+            onToggle={() => {
+              toggleRef.current(sheetUnit)
+              setSheetUnitId(null)
+            }}
+            onClose={() => setSheetUnitId(null)}
+          />
+        ) : (
+          <>
+            {frame && minimapUrl && view.scale > 1 && (
+              <PlanMinimap imageUrl={minimapUrl} frame={frame} view={view} rotated={rotated} onCenter={centerOn} />
+            )}
+            <ZoomControls
+              scale={view.scale}
+              onZoomIn={() => zoomBy(ZOOM_STEP)}
+              onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+              onReset={() => resetZoom()}
+            />
+          </>
+        )}
       </div>
 
+      {/* Anuncios para lectores de pantalla (selección con teclado o ratón) */}
+      <p className="sr-only" role="status" aria-live="polite">{announcement}</p>
+
+      {debugReport && <PlanDebugPanel report={debugReport} />}
+
       {tooltip && (
         <div
           className="fixed z-50 pointer-events-none px-3 py-2 text-sm text-white bg-gray-900 rounded-lg shadow-lg max-w-[220px]"
@@ -364,12 +1133,209 @@ export function PlanoSVG({
           <p className="font-medium">Trastero #{tooltip.unit.number}</p>
           <p className="text-gray-300 text-xs mt-0.5">
             {tooltip.unit.dimensionsLabel} ({tooltip.unit.dimensions} m²) · {tooltip.unit.price} €/mes
+            {tooltip.unit.floorName && ` · ${tooltip.unit.floorName}`}
           </p>
+          {tooltip.unit.attributes && (
+            <p className="text-gray-300 text-xs mt-0.5">{describeUnitAttributes(tooltip.unit.attributes).join(' · ')}</p>
+          )}
           <p className="text-gray-400 text-xs mt-0.5">
-            {tooltip.unit.status === 'AVAILABLE' ? 'Disponible' : tooltip.unit.status}
+            {UNIT_STATUS[tooltip.unit.status].label}
           </p>
         </div>
       )}
     </div>
   )
 }
+
+// ─── Depuración ──────────────────────────────────────────────────────
+
+/** Informe de `?debug=plan`: lo mismo que `npm run validate-plan`, con el JSON a mano */
+function PlanDebugPanel({ report }: { report: PlanValidationReport }) {
+  const [copied, setCopied] = useState(false)
+  const json = JSON.stringify(report, null, 2)
+  const s = report.summary
+
+  const rows: [string, string[]][] = [
+    ['Trasteros sin forma', report.unmatchedUnits.map(u => `${u.number ?? u.unitId} → "${u.shapeId}"`)],
+    ['shapeId compartido', report.duplicateShapeIds.map(d => `${d.shapeId}: ${d.unitIds.length} trasteros`)],
+    ['Ambiguos', report.ambiguousMatches.map(a => `${a.shapeId}: ${a.candidates.join(' / ')}`)],
+    ['Ids repetidos en el SVG', report.duplicateSvgIds],
+    ['Formas abiertas', report.openShapes.map(o => `${o.shapeId} <${o.tag}>`)],
+    ['Formas sin trastero', report.orphanShapes.map(o => o.shapeId)],
+  ]
+
+  const copy = () => {
+    navigator.clipboard?.writeText(json).then(() => setCopied(true), () => setCopied(false))
+  }
+
+  return (
+    <div className="rounded-lg border border-pink-300 bg-pink-50 px-3 py-2 text-xs text-gray-800 font-mono shrink-0">
+      <div className="flex items-center justify-between gap-2">
+        <p className={`font-semibold ${report.ok ? 'text-green-700' : 'text-red-700'}`}>
+          debug=plan · {report.ok ? 'OK' : 'con errores'} · {s.matched}/{s.units} enlazados · {s.shapes} formas con id
+        </p>
+        <button type="button" onClick={copy} className="shrink-0 rounded border border-pink-300 bg-white px-2 py-0.5 hover:bg-pink-100">
+          {copied ? 'Copiado' : 'Copiar JSON'}
+        </button>
+      </div>
+      {rows.filter(([, items]) => items.length > 0).map(([title, items]) => (
+        <p key={title} className="mt-1 break-words">
+          <span className="font-semibold">{title} ({items.length}):</span> {items.join(', ')}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+// ─── Ficha táctil ────────────────────────────────────────────────────
+
+/**
+ * Ficha del trastero tocado. Va dentro del contenedor pero fuera de la capa
+ * girada y ampliada, así que siempre se lee derecha y al pie del plano.
+ */
+function UnitSheet({ unit, selected, clickable, onToggle, onClose }: {
+  unit: StorageUnit
+  selected: boolean
+  clickable: boolean
+  onToggle: () => void
+  onClose: () => void
+}) {
+  const unavailableLabel = unit.status === 'AVAILABLE' ? 'Fuera del filtro' : 'No disponible'
+  return (
+    <div
+      data-plan-controls
+      role="dialog"
+      aria-label={`Trastero ${unit.number}`}
+      className="absolute inset-x-2 bottom-2 z-10 bg-white rounded-2xl border border-gray-200 shadow-lg p-4 flex items-center gap-3"
+    >
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-bold text-gray-900">
+          Trastero #{unit.number}
+          {unit.floorName && <span className="ml-1.5 text-xs font-normal text-gray-500">{unit.floorName}</span>}
+        </p>
+        <p className="text-xs text-gray-600 mt-0.5">
+          {unit.dimensionsLabel} ({unit.dimensions} m²) · <span className="font-semibold text-gray-900">{unit.price} €/mes</span>
+        </p>
+        {unit.attributes && (
+          <p className="text-xs text-gray-500 mt-0.5">{describeUnitAttributes(unit.attributes).join(' · ')}</p>
+        )}
+        <p className="text-xs text-gray-400 mt-0.5">
+          {selected ? 'Seleccionado' : UNIT_STATUS[unit.status].label}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onToggle}
+        disabled={!clickable}
+        className={`shrink-0 rounded-xl px-4 py-2.5 text-sm font-semibold transition-colors disabled:bg-gray-100 disabled:text-gray-400 ${
+          selected ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-blue-600 text-white hover:bg-blue-700'
+        }`}
+      >
+        {!clickable ? unavailableLabel : selected ? 'Quitar' : 'Seleccionar'}
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        className="shrink-0 w-8 h-8 rounded-full bg-gray-100 text-gray-500 flex items-center justify-center text-base"
+        aria-label="Cerrar ficha"
+      >
+        ×
+      </button>
+    </div>
+  )
+}
+
+// ─── Controles de zoom ───────────────────────────────────────────────
+
+const CONTROL_BUTTON =
+  'w-8 h-8 rounded-lg bg-white/90 hover:bg-white border border-gray-200 shadow-sm flex items-center justify-center text-gray-700 disabled:opacity-40 disabled:cursor-default transition-colors'
+
+function ZoomControls({ scale, onZoomIn, onZoomOut, onReset }: {
+  scale: number
+  onZoomIn: () => void
+  onZoomOut: () => void
+  onReset: () => void
+}) {
+  return (
+    <div data-plan-controls className="absolute right-2 bottom-2 flex flex-col gap-1">
+      <button type="button" className={CONTROL_BUTTON} onClick={onZoomIn} disabled={scale >= MAX_ZOOM} aria-label="Acercar">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 5v14m-7-7h14" />
+        </svg>
+      </button>
+      <button type="button" className={CONTROL_BUTTON} onClick={onZoomOut} disabled={scale <= 1} aria-label="Alejar">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M5 12h14" />
+        </svg>
+      </button>
+      <button type="button" className={CONTROL_BUTTON} onClick={onReset} disabled={scale <= 1} aria-label="Ver plano completo">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5" />
+        </svg>
+      </button>
+    </div>
+  )
+}
+
+// ─── Minimapa ────────────────────────────────────────────────────────
+
+const MINIMAP_MAX_PX = 112
+
+/**
+ * Miniatura del plano con la zona visible marcada. Pulsar o arrastrar sobre
+ * ella centra la vista en ese punto. Con `rotated` la imagen gira igual que
+ * el plano, así que la miniatura coincide con lo que se ve.
+ */
+function PlanMinimap({ imageUrl, frame, view, rotated, onCenter }: {
+  imageUrl: string
+  frame: PlanFrame
+  view: PlanView
+  rotated: boolean
+  onCenter: (x: number, y: number) => void
+}) {
+  const { box } = frame
+  const ratio = Math.min(MINIMAP_MAX_PX / box.w, MINIMAP_MAX_PX / box.h)
+  const w = box.w * ratio
+  const h = box.h * ratio
+
+  // Zona visible en coordenadas del plano a zoom 1, recortada a sus bordes
+  const left   = Math.max(0, -view.x / view.scale - box.x)
+  const top    = Math.max(0, -view.y / view.scale - box.y)
+  const right  = Math.min(box.w, (frame.width  - view.x) / view.scale - box.x)
+  const bottom = Math.min(box.h, (frame.height - view.y) / view.scale - box.y)
+
+  const centerAt = (ev: ReactPointerEvent<HTMLDivElement>) => {
+    const r = ev.currentTarget.getBoundingClientRect()
+    onCenter(box.x + (ev.clientX - r.left) / ratio, box.y + (ev.clientY - r.top) / ratio)
+  }
+
+  return (
+    <div
+      data-plan-controls
+      aria-hidden="true"
+      className="absolute left-2 bottom-2 rounded-md border border-gray-300 bg-white/90 shadow-sm overflow-hidden cursor-pointer touch-none"
+      style={{ width: w, height: h }}
+      onPointerDown={ev => { ev.currentTarget.setPointerCapture(ev.pointerId); centerAt(ev) }}
+      onPointerMove={ev => { if (ev.buttons) centerAt(ev) }}
+    >
+      <img
+        src={imageUrl}
+        alt=""
+        draggable={false}
+        className="absolute top-0 left-0 max-w-none pointer-events-none"
+        style={rotated
+          ? { width: h, height: w, transformOrigin: 'top left', transform: 'rotate(-90deg) translateX(-100%)' }
+          : { width: w, height: h }}
+      />
+      <div
+        className="absolute border-2 border-blue-600 bg-blue-600/10 pointer-events-none"
+        style={{
+          left: left * ratio,
+          top: top * ratio,
+          width: Math.max(0, right - left) * ratio,
+          height: Math.max(0, bottom - top) * ratio,
+        }}
+      />
+    </div>
+  )
+}
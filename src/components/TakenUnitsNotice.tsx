@@ -0,0 +1,26 @@
+import type { StorageUnit } from '../types'
+
+/**
+ * Aviso de trasteros seleccionados que otra persona acaba de reservar y que
+ * se han quitado de la selección. Se cierra a mano.
+ */
+export function TakenUnitsNotice({ units, onDismiss }: { units: StorageUnit[]; onDismiss: () => void }) {
+  const numbers = units.map(u => `#${u.number}`).join(', ')
+  return (
+    <div role="alert" className="flex items-start justify-between gap-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl px-4 py-3 text-sm">
+      <p>
+        {units.length === 1
+          ? `El trastero ${numbers} acaba de ser reservado por otra persona y se ha quitado de tu selección.`
+          : `Los trasteros ${numbers} acaban de ser reservados por otras personas y se han quitado de tu selección.`}
+      </p>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="shrink-0 text-amber-600 hover:text-amber-900 text-base leading-none"
+        aria-label="Cerrar aviso"
+      >
+        ×
+      </button>
+    </div>
+  )
+}
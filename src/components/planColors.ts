@@ -0,0 +1,149 @@
+import type { CSSProperties } from 'react'
+import type { StorageUnit } from '../types'
+
+// ─── Colores por estado ───────────────────────────────────────────────
+
+/**
+ * Colores del plano por estado. Son variables CSS (valores por defecto en
+ * index.css) para que el tema del tenant pueda cambiarlos sin tocar el código.
+ */
+export const PLAN_COLORS = {
+  available: 'var(--plan-available)',
+  selected:  'var(--plan-selected)',
+  occupied:  'var(--plan-occupied)',
+  filtered:  'var(--plan-filtered)',
+} as const
+
+// ─── Tramas accesibles ────────────────────────────────────────────────
+//
+// Disponible, fuera de filtro y ocupado son ámbares y naranjas que muchas
+// personas daltónicas no distinguen. Con las tramas activas cada estado lleva
+// además una marca que no depende del color.
+
+/** Rayado → ocupado / reservado, puntos → fuera de filtro, contorno → seleccionado */
+export type PlanPattern = 'hatch' | 'dots' | 'outline'
+
+/** Oscura y semitransparente para que se siga viendo el color de debajo */
+export const PATTERN_INK = 'rgba(17, 24, 39, 0.6)'
+
+/** Las mismas tramas en CSS, para los cuadraditos de la leyenda */
+export const LEGEND_PATTERN_STYLES: Record<PlanPattern, CSSProperties> = {
+  hatch:   { backgroundImage: `repeating-linear-gradient(45deg, ${PATTERN_INK} 0 1.5px, transparent 1.5px 4px)` },
+  dots:    { backgroundImage: `radial-gradient(circle, ${PATTERN_INK} 1px, transparent 1.2px)`, backgroundSize: '4px 4px' },
+  outline: { boxShadow: `inset 0 0 0 2px ${PATTERN_INK}` },
+}
+
+// ─── Modos de color del plano ────────────────────────────────────────
+//
+// 'status' es el coloreado de siempre (disponible, seleccionado, ocupado,
+// fuera de filtro). El resto pintan los trasteros libres con un degradado
+// continuo para comparar muchos trasteros parecidos de un vistazo.
+
+export type PlanColorMode = 'status' | 'pricePerM2' | 'size' | 'value'
+
+export const PLAN_COLOR_MODES: { id: PlanColorMode; label: string }[] = [
+  { id: 'status',     label: 'Disponibilidad' },
+  { id: 'pricePerM2', label: 'Precio por m²' },
+  { id: 'size',       label: 'Tamaño' },
+  { id: 'value',      label: 'Mejor oferta' },
+]
+
+/** En los degradados lo no seleccionable pasa a gris para no competir con la escala */
+export const HEATMAP_UNAVAILABLE = '#9CA3AF'
+export const HEATMAP_FILTERED    = '#E5E7EB'
+
+/** Colores de cada escala, del extremo 0 al 1 */
+const STOPS: Record<Exclude<PlanColorMode, 'status'>, string[]> = {
+  pricePerM2: ['#2C7BB6', '#FFFFBF', '#D7191C'], // barato → caro
+  size:       ['#EFF3FF', '#6BAED6', '#08519C'], // pequeño → grande
+  value:      ['#E66101', '#F7F7F7', '#5E3C99'], // caro para su tamaño → buena oferta
+}
+
+/**
+ * Escala de un modo de color. El mismo objeto colorea el plano y dibuja la
+ * leyenda, así que los dos usan siempre el mismo rango.
+ */
+export interface PlanHeatmap {
+  mode: Exclude<PlanColorMode, 'status'>
+  stops: string[]
+  /** Extremos de la escala en la unidad del modo (€/m², m² o % sobre lo esperado) */
+  min: number
+  max: number
+  colorOf: (unit: StorageUnit) => string
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16)
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+}
+
+/** Color en la posición t ∈ [0, 1] de una escala de varios tramos */
+function interpolate(stops: string[], t: number): string {
+  const pos = Math.min(1, Math.max(0, t)) * (stops.length - 1)
+  const i = Math.min(stops.length - 2, Math.floor(pos))
+  const a = hexToRgb(stops[i])
+  const b = hexToRgb(stops[i + 1])
+  const f = pos - i
+  const rgb = a.map((c, k) => Math.round(c + (b[k] - c) * f))
+  return `rgb(${rgb.join(', ')})`
+}
+
+/**
+ * Cuánto más barato es cada trastero de lo que le tocaría por su tamaño, en
+ * tanto por uno: se ajusta una recta precio ~ m² por mínimos cuadrados y se
+ * compara cada precio con la recta. Positivo = buena oferta.
+ */
+function valueScores(units: StorageUnit[]): Map<string, number> {
+  const n = units.length
+  const meanX = units.reduce((s, u) => s + u.dimensions, 0) / n
+  const meanY = units.reduce((s, u) => s + u.price, 0) / n
+  let sxy = 0
+  let sxx = 0
+  for (const u of units) {
+    sxy += (u.dimensions - meanX) * (u.price - meanY)
+    sxx += (u.dimensions - meanX) ** 2
+  }
+  // Todos del mismo tamaño: se compara solo con el precio medio
+  const slope = sxx > 0 ? sxy / sxx : 0
+  const scores = new Map<string, number>()
+  for (const u of units) {
+    const expected = meanY + slope * (u.dimensions - meanX)
+    scores.set(u.id, expected > 0 ? (expected - u.price) / expected : 0)
+  }
+  return scores
+}
+
+// ─── Escala ───────────────────────────────────────────────────────────
+
+/**
+ * Construye la escala de un modo a partir de los trasteros libres (sin mirar
+ * los filtros, para que la leyenda no cambie al filtrar). Devuelve null en
+ * modo 'status' o si no hay trasteros libres con superficie.
+ */
+export function buildPlanHeatmap(mode: PlanColorMode, units: StorageUnit[]): PlanHeatmap | null {
+  if (mode === 'status') return null
+  const available = units.filter(u => u.status === 'AVAILABLE' && u.dimensions > 0)
+  if (available.length === 0) return null
+
+  const scores = mode === 'value' ? valueScores(available) : null
+  const metric = (u: StorageUnit): number => {
+    if (mode === 'size') return u.dimensions
+    if (mode === 'pricePerM2') return u.dimensions > 0 ? u.price / u.dimensions : 0
+    return scores?.get(u.id) ?? 0
+  }
+
+  const values = available.map(metric)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const stops = STOPS[mode]
+
+  return {
+    mode,
+    stops,
+    min,
+    max,
+    colorOf: unit => interpolate(stops, max > min ? (metric(unit) - min) / (max - min) : 0.5),
+  }
+}
@@ -0,0 +1,85 @@
+import { getShapeIdVariants } from '../services/planValidator'
+import type { Point } from '../services/wayfinding'
+
+// ─── Ruta sobre el plano ──────────────────────────────────────────────
+//
+// Dibujo de la ruta de la entrada al trastero. El mismo marcado sirve para
+// el plano interactivo (con las variables del tema) y para las copias
+// estáticas de la pantalla de éxito y del anexo del contrato, que van como
+// imagen y necesitan colores concretos.
+
+/** Color de la ruta en las copias estáticas si el tenant no tiene color principal */
+export const DEFAULT_ROUTE_COLOR = '#2563eb'
+
+/** Instrucción que acompaña a la ruta en la pantalla de éxito y en el contrato */
+export const ROUTE_INSTRUCTIONS = 'Entra por la puerta marcada en verde y sigue la línea hasta tu trastero.'
+
+/** Grosor del trazo en px de pantalla (no escala con el zoom) */
+const ROUTE_WIDTH_PX = 4
+/** Diámetro de los puntos de salida y llegada */
+const ROUTE_DOT_PX = 12
+
+const polylineMarkup = (points: Point[], style: string, width: number) =>
+  `<polyline points="${points.map(p => `${p.x},${p.y}`).join(' ')}" fill="none" style="${style}" stroke-width="${width}"`
+  + ' stroke-linecap="round" stroke-linejoin="round" vector-effect="non-scaling-stroke"/>'
+
+/**
+ * `<g>` con las rutas: trazo con borde blanco para que se vea sobre cualquier
+ * fondo y un punto en la puerta y en cada trastero. Los puntos son polilíneas
+ * de longitud cero con extremo redondo, así miden lo mismo a cualquier zoom.
+ */
+export function routeMarkup(routes: Point[][], color: string): string {
+  if (routes.length === 0) return ''
+  const parts: string[] = []
+  for (const points of routes) {
+    parts.push(polylineMarkup(points, 'stroke:#ffffff', ROUTE_WIDTH_PX + 3))
+    parts.push(polylineMarkup(points, `stroke:${color}`, ROUTE_WIDTH_PX))
+  }
+  const door = routes[0][0]
+  const ends = [door, ...routes.map(points => points[points.length - 1])]
+  for (const p of ends) {
+    parts.push(polylineMarkup([p, p], 'stroke:#ffffff', ROUTE_DOT_PX + 4))
+    parts.push(polylineMarkup([p, p], `stroke:${p === door ? '#16a34a' : color}`, ROUTE_DOT_PX))
+  }
+  return `<g data-plan-route="" aria-hidden="true" pointer-events="none">${parts.join('')}</g>`
+}
+
+/**
+ * Plano con las rutas y los trasteros de destino resaltados, como SVG
+ * independiente. `planSvg` debe venir ya saneado.
+ */
+export function routeMapSvg(planSvg: string, routes: Point[][], shapeIds: string[], color: string): string {
+  const selectors = shapeIds.flatMap(getShapeIdVariants).map(id => `[id="${id.replace(/"/g, '')}"]`)
+  const highlight = selectors.length > 0
+    ? `<style>${selectors.join(',')}{fill:${color} !important;fill-opacity:0.45 !important}</style>`
+    : ''
+  const close = planSvg.lastIndexOf('</svg>')
+  if (close < 0) return planSvg
+  return planSvg.slice(0, close) + highlight + routeMarkup(routes, color) + planSvg.slice(close)
+}
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+
+/**
+ * Pasa un SVG a PNG (para jsPDF, que no admite SVG). El alto sale de la
+ * proporción del propio SVG.
+ */
+export function rasterizeSvg(svg: string, widthPx: number): Promise<{ dataUrl: string; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      const ratio = img.naturalWidth > 0 ? img.naturalHeight / img.naturalWidth : 0.6
+      const canvas = document.createElement('canvas')
+      canvas.width = widthPx
+      canvas.height = Math.round(widthPx * ratio)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) { reject(new Error('Canvas no disponible')); return }
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+      resolve({ dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height })
+    }
+    img.onerror = () => reject(new Error('No se pudo dibujar el plano'))
+    img.src = svgDataUrl(svg)
+  })
+}
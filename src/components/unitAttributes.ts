@@ -0,0 +1,121 @@
+import { getRuntimeConfig } from '../config/runtime'
+import type { StorageUnit, UnitAttributes } from '../types'
+
+// ─── Características de los trasteros ─────────────────────────────────
+//
+// Textos de las características (tooltip, ficha, resumen) y los chips de
+// filtro del paso de selección. Solo aparecen los chips que algún trastero
+// del centro cumple: un backend que no envía características no muestra nada.
+
+type UnitFlag = 'vehicleAccess' | 'climateControl' | 'groundFloor' | 'powerSocket' | 'lighting'
+
+const FLAG_LABELS: Record<UnitFlag, string> = {
+  vehicleAccess:  'Acceso con vehículo',
+  climateControl: 'Climatizado',
+  groundFloor:    'A pie de calle',
+  powerSocket:    'Enchufe',
+  lighting:       'Iluminación',
+}
+
+/** Umbrales de los chips de medidas, en metros */
+const TALL_CEILING_M = 2.5
+const WIDE_DOOR_M = 1.2
+
+function formatMeters(value: number): string {
+  return `${new Intl.NumberFormat(getRuntimeConfig().locale, { maximumFractionDigits: 2 }).format(value)} m`
+}
+
+/** "Planta baja", "Sótano 1", "Planta 2" */
+export function floorLevelLabel(level: number): string {
+  if (level === 0) return 'Planta baja'
+  return level < 0 ? `Sótano ${-level}` : `Planta ${level}`
+}
+
+/** Características en texto, en orden fijo; vacío si el trastero no trae ninguna */
+export function describeUnitAttributes(attributes: UnitAttributes | undefined): string[] {
+  if (!attributes) return []
+  const parts: string[] = []
+  if (attributes.floor !== undefined) parts.push(floorLevelLabel(attributes.floor))
+  if (attributes.ceilingHeight !== undefined) parts.push(`Altura ${formatMeters(attributes.ceilingHeight)}`)
+  if (attributes.doorWidth !== undefined) parts.push(`Puerta ${formatMeters(attributes.doorWidth)}`)
+  for (const flag of Object.keys(FLAG_LABELS) as UnitFlag[]) {
+    if (attributes[flag]) parts.push(FLAG_LABELS[flag])
+  }
+  return parts
+}
+
+// ─── Filtros ─────────────────────────────────────────────────────────
+
+/** Chip de filtro por característica */
+export interface AttributeFilter {
+  id: string
+  label: string
+  /** Los chips de un mismo grupo se excluyen entre sí (las plantas) */
+  group?: 'floor'
+  test: (attributes: UnitAttributes) => boolean
+}
+
+/** Las etiquetas dependen del locale de la configuración: se crean al usarlas */
+function fixedFilters(): AttributeFilter[] {
+  return [
+    ...(Object.keys(FLAG_LABELS) as UnitFlag[]).map(flag => ({
+      id: flag,
+      label: FLAG_LABELS[flag],
+      test: (a: UnitAttributes) => a[flag] === true,
+    })),
+    {
+      id: 'tallCeiling',
+      label: `Altura ≥ ${formatMeters(TALL_CEILING_M)}`,
+      test: a => (a.ceilingHeight ?? 0) >= TALL_CEILING_M,
+    },
+    {
+      id: 'wideDoor',
+      label: `Puerta ≥ ${formatMeters(WIDE_DOOR_M)}`,
+      test: a => (a.doorWidth ?? 0) >= WIDE_DOOR_M,
+    },
+  ]
+}
+
+/**
+ * Chips que tienen sentido para estos trasteros: una planta por nivel (si
+ * hay más de uno) y cada característica que cumple al menos uno.
+ */
+export function buildAttributeFilters(units: StorageUnit[]): AttributeFilter[] {
+  const levels = [...new Set(units.flatMap(u => u.attributes?.floor ?? []))].sort((a, b) => a - b)
+  const floorFilters: AttributeFilter[] = levels.length > 1
+    ? levels.map(level => ({
+      id: `floor:${level}`,
+      label: floorLevelLabel(level),
+      group: 'floor' as const,
+      test: (a: UnitAttributes) => a.floor === level,
+    }))
+    : []
+  const present = fixedFilters().filter(f => units.some(u => u.attributes && f.test(u.attributes)))
+  return [...floorFilters, ...present]
+}
+
+export function matchesAttributeFilters(unit: StorageUnit, filters: AttributeFilter[]): boolean {
+  if (filters.length === 0) return true
+  const attributes = unit.attributes ?? {}
+  return filters.every(f => f.test(attributes))
+}
+
+/**
+ * Trasteros de `units` que quedarían al pulsar cada chip, contando con los
+ * demás filtros activos (menos los de su mismo grupo, que se sustituyen).
+ */
+export function countAttributeMatches(
+  units: StorageUnit[],
+  filters: AttributeFilter[],
+  active: AttributeFilter[],
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const filter of filters) {
+    const combined = [
+      ...active.filter(a => a.id !== filter.id && !(filter.group && a.group === filter.group)),
+      filter,
+    ]
+    counts.set(filter.id, units.filter(u => matchesAttributeFilters(u, combined)).length)
+  }
+  return counts
+}
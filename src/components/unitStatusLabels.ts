@@ -0,0 +1,21 @@
+import type { UnitStatus } from '../types'
+
+// ─── Estados de los trasteros ────────────────────────────────────────
+//
+// Texto y colores de cada estado para las insignias del buscador y de la
+// lista, y el texto (en minúsculas) de las etiquetas accesibles del plano.
+
+export interface UnitStatusInfo {
+  label: string
+  /** Orden al ordenar por estado: primero lo que se puede reservar */
+  order: number
+  /** Clases de la insignia */
+  className: string
+}
+
+export const UNIT_STATUS: Record<UnitStatus, UnitStatusInfo> = {
+  AVAILABLE:   { label: 'Disponible',       order: 0, className: 'bg-green-50 text-green-700' },
+  RESERVED:    { label: 'Reservado',        order: 1, className: 'bg-amber-50 text-amber-700' },
+  OCCUPIED:    { label: 'Ocupado',          order: 2, className: 'bg-gray-100 text-gray-600' },
+  MAINTENANCE: { label: 'En mantenimiento', order: 3, className: 'bg-gray-100 text-gray-600' },
+}
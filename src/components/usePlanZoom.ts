@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+
+// ─── Tipos ────────────────────────────────────────────────────────────
+
+/** Transformación aplicada sobre el plano ya ajustado: `translate(x, y) scale(scale)` */
+export interface PlanView {
+  scale: number
+  x: number
+  y: number
+}
+
+/**
+ * Zona que ocupa el plano dentro del contenedor a zoom 1 (tras el ajuste y
+ * el giro), junto con el tamaño del propio contenedor.
+ */
+export interface PlanFrame {
+  box: { x: number; y: number; w: number; h: number }
+  width: number
+  height: number
+}
+
+interface Point { x: number; y: number }
+
+// ─── Constantes ──────────────────────────────────────────────────────
+
+export const MAX_ZOOM = 8
+/** Factor de los botones +/− */
+export const ZOOM_STEP = 1.5
+const WHEEL_SENSITIVITY = 0.002
+const DOUBLE_TAP_MS = 300
+const DOUBLE_TAP_SLOP_PX = 24
+/** Movimiento mínimo para considerar un arrastre (y no un click) */
+const DRAG_THRESHOLD_PX = 5
+/** Al hacer doble toque sobre un trastero, este ocupa ~1/3 de la vista */
+const UNIT_FOCUS_RATIO = 3
+/** Margen al desplazar la vista para mostrar el trastero con el foco */
+const REVEAL_MARGIN_PX = 16
+
+const IDENTITY: PlanView = { scale: 1, x: 0, y: 0 }
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n))
+}
+
+/**
+ * Limita el desplazamiento en un eje: si el plano ampliado es más pequeño que
+ * la vista se mantiene dentro de ella; si es más grande, debe cubrirla.
+ */
+function clampAxis(t: number, scale: number, start: number, length: number, avail: number): number {
+  const size = scale * length
+  const lo = size <= avail ? -scale * start : avail - scale * (start + length)
+  const hi = size <= avail ? avail - scale * start - size : -scale * start
+  return clamp(t, Math.min(lo, hi), Math.max(lo, hi))
+}
+
+export function clampView(view: PlanView, frame: PlanFrame): PlanView {
+  const scale = clamp(view.scale, 1, MAX_ZOOM)
+  const { box, width, height } = frame
+  return {
+    scale,
+    x: clampAxis(view.x, scale, box.x, box.w, width),
+    y: clampAxis(view.y, scale, box.y, box.h, height),
+  }
+}
+
+function sameFrame(a: PlanFrame | null, b: PlanFrame): boolean {
+  return !!a && a.width === b.width && a.height === b.height
+    && a.box.x === b.box.x && a.box.y === b.box.y && a.box.w === b.box.w && a.box.h === b.box.h
+}
+
+function pinchOf(pointers: Map<number, Point>): { dist: number; mid: Point } {
+  const [a, b] = [...pointers.values()]
+  return {
+    dist: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+    mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+  }
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+/**
+ * Zoom y desplazamiento del plano: rueda, arrastre, pellizco y doble toque.
+ *
+ * Trabaja en coordenadas del contenedor, por encima del ajuste y el giro que
+ * hace `PlanoSVG`, así que no necesita saber si el plano está rotado: el
+ * componente informa de dónde queda el plano con `setFrame` cada vez que se
+ * reajusta. Los elementos con `data-unit-id` son los destinos del doble toque;
+ * los que están dentro de `[data-plan-controls]` no inician gestos.
+ *
+ * @param ready  el contenedor está montado (el SVG ya se cargó)
+ * @param wheelNeedsModifier  la rueda solo hace zoom con Ctrl/⌘ (el plano va
+ *   dentro de una página con scroll); el pellizco del trackpad sí funciona
+ */
+export function usePlanZoom(
+  containerRef: RefObject<HTMLDivElement | null>,
+  { ready, wheelNeedsModifier }: { ready: boolean; wheelNeedsModifier: boolean },
+) {
+  const [view, setView]         = useState<PlanView>(IDENTITY)
+  const [animated, setAnimated] = useState(false)
+  const [frame, setFrameState]  = useState<PlanFrame | null>(null)
+  const viewRef  = useRef<PlanView>(IDENTITY)
+  const frameRef = useRef<PlanFrame | null>(null)
+
+  const commit = useCallback((next: PlanView, animate: boolean) => {
+    const clamped = frameRef.current ? clampView(next, frameRef.current) : next
+    viewRef.current = clamped
+    setAnimated(animate)
+    setView(clamped)
+  }, [])
+
+  /** Amplía `factor` veces manteniendo fijo el punto (px, py) del contenedor */
+  const zoomAt = useCallback((factor: number, px: number, py: number, animate: boolean) => {
+    const v = viewRef.current
+    const scale = clamp(v.scale * factor, 1, MAX_ZOOM)
+    const k = scale / v.scale
+    commit({ scale, x: px - (px - v.x) * k, y: py - (py - v.y) * k }, animate)
+  }, [commit])
+
+  const zoomBy = useCallback((factor: number) => {
+    const f = frameRef.current
+    if (!f) return
+    zoomAt(factor, f.width / 2, f.height / 2, true)
+  }, [zoomAt])
+
+  const reset = useCallback((animate = true) => commit(IDENTITY, animate), [commit])
+
+  /** Centra la vista en un punto del plano (coordenadas a zoom 1) */
+  const centerOn = useCallback((cx: number, cy: number, animate = false) => {
+    const f = frameRef.current
+    if (!f) return
+    const { scale } = viewRef.current
+    commit({ scale, x: f.width / 2 - cx * scale, y: f.height / 2 - cy * scale }, animate)
+  }, [commit])
+
+  /**
+   * Centra un rectángulo de pantalla (p. ej. el de un trastero) con una escala
+   * entre `minScale` y la que lo deja ocupando ~1/3 de la vista.
+   */
+  const focusRect = useCallback((rect: DOMRect, minScale: number) => {
+    const container = containerRef.current
+    const f = frameRef.current
+    if (!container || !f || rect.width <= 0 || rect.height <= 0) return
+    const v = viewRef.current
+    const origin = container.getBoundingClientRect()
+    const fit = v.scale * Math.min(f.width / rect.width, f.height / rect.height) / UNIT_FOCUS_RATIO
+    const scale = clamp(fit, minScale, MAX_ZOOM)
+    // Centro del rectángulo en coordenadas del plano a zoom 1
+    const cx = (rect.left + rect.width / 2 - origin.left - v.x) / v.scale
+    const cy = (rect.top + rect.height / 2 - origin.top - v.y) / v.scale
+    commit({ scale, x: f.width / 2 - cx * scale, y: f.height / 2 - cy * scale }, true)
+  }, [containerRef, commit])
+
+  /** Amplía y centra un rectángulo de pantalla (doble toque); al máximo, vuelve a la vista completa */
+  const zoomToRect = useCallback((rect: DOMRect) => {
+    const v = viewRef.current
+    if (v.scale >= MAX_ZOOM) { reset(); return }
+    focusRect(rect, v.scale * ZOOM_STEP)
+  }, [focusRect, reset])
+
+  /** Centra un rectángulo de pantalla y amplía solo si se ve pequeño (buscador) */
+  const showRect = useCallback((rect: DOMRect) => {
+    focusRect(rect, viewRef.current.scale)
+  }, [focusRect])
+
+  /** Desplaza la vista lo justo para que se vea un rectángulo de pantalla (foco con teclado) */
+  const revealRect = useCallback((rect: DOMRect) => {
+    const container = containerRef.current
+    const f = frameRef.current
+    const v = viewRef.current
+    if (!container || !f || v.scale <= 1) return
+    const origin = container.getBoundingClientRect()
+    const offset = (start: number, size: number, avail: number) => {
+      if (start < 0) return REVEAL_MARGIN_PX - start
+      if (start + size > avail) return avail - REVEAL_MARGIN_PX - (start + size)
+      return 0
+    }
+    const dx = offset(rect.left - origin.left, rect.width, f.width)
+    const dy = offset(rect.top - origin.top, rect.height, f.height)
+    if (dx !== 0 || dy !== 0) commit({ ...v, x: v.x + dx, y: v.y + dy }, true)
+  }, [containerRef, commit])
+
+  /** Lo llama el ajuste del plano (carga, ResizeObserver, giro) */
+  const setFrame = useCallback((next: PlanFrame) => {
+    if (sameFrame(frameRef.current, next)) return
+    frameRef.current = next
+    setFrameState(next)
+    commit(viewRef.current, false)
+  }, [commit])
+
+  // ── Gestos ──────────────────────────────────────────────────────
+  useEffect(() => {
+    const container = containerRef.current
+    if (!ready || !container) return
+
+    const pointers = new Map<number, Point>()
+    let start: Point | null = null
+    let dragging = false
+    let suppressClick = false
+    let pinch: { dist: number; mid: Point } | null = null
+    let lastTap: { time: number; x: number; y: number } | null = null
+
+    const local = (ev: MouseEvent): Point => {
+      const r = container.getBoundingClientRect()
+      return { x: ev.clientX - r.left, y: ev.clientY - r.top }
+    }
+    const isControl = (target: EventTarget | null) =>
+      target instanceof Element && !!target.closest('[data-plan-controls]')
+
+    const onWheel = (ev: WheelEvent) => {
+      if (wheelNeedsModifier && !ev.ctrlKey && !ev.metaKey) return
+      ev.preventDefault()
+      const delta = ev.deltaMode === WheelEvent.DOM_DELTA_LINE ? ev.deltaY * 16 : ev.deltaY
+      const p = local(ev)
+      zoomAt(Math.exp(-delta * WHEEL_SENSITIVITY), p.x, p.y, false)
+    }
+
+    const onPointerDown = (ev: PointerEvent) => {
+      if (isControl(ev.target)) return
+      if (ev.pointerType === 'mouse' && ev.button !== 0) return
+      const p = local(ev)
+      pointers.set(ev.pointerId, p)
+
+      if (pointers.size === 2) {
+        pinch = pinchOf(pointers)
+        dragging = true
+        suppressClick = true
+        return
+      }
+      if (pointers.size > 1) return
+
+      start = p
+      dragging = false
+      suppressClick = false
+
+      // Doble toque: el segundo toque no llega como click. Solo en táctil, donde
+      // el primer toque abre la ficha; con ratón el primer click ya (de)selecciona
+      if (ev.pointerType === 'touch' && lastTap && ev.timeStamp - lastTap.time < DOUBLE_TAP_MS
+        && Math.hypot(p.x - lastTap.x, p.y - lastTap.y) < DOUBLE_TAP_SLOP_PX) {
+        lastTap = null
+        suppressClick = true
+        const unitEl = ev.target instanceof Element ? ev.target.closest('[data-unit-id]') : null
+        if (unitEl) zoomToRect(unitEl.getBoundingClientRect())
+        else if (viewRef.current.scale >= MAX_ZOOM) reset()
+        else zoomAt(2, p.x, p.y, true)
+      }
+    }
+
+    const onPointerMove = (ev: PointerEvent) => {
+      const prev = pointers.get(ev.pointerId)
+      if (!prev) return
+      const p = local(ev)
+      pointers.set(ev.pointerId, p)
+
+      if (pinch && pointers.size >= 2) {
+        const next = pinchOf(pointers)
+        const v = viewRef.current
+        const scale = clamp(v.scale * next.dist / pinch.dist, 1, MAX_ZOOM)
+        const k = scale / v.scale
+        commit({
+          scale,
+          x: next.mid.x - (pinch.mid.x - v.x) * k,
+          y: next.mid.y - (pinch.mid.y - v.y) * k,
+        }, false)
+        pinch = next
+        return
+      }
+
+      if (!start) return
+      if (!dragging) {
+        if (Math.hypot(p.x - start.x, p.y - start.y) < DRAG_THRESHOLD_PX) return
+        dragging = true
+        suppressClick = true
+        // Solo se captura al empezar a arrastrar: antes, el click debe llegar al trastero
+        container.setPointerCapture(ev.pointerId)
+      }
+      const v = viewRef.current
+      commit({ ...v, x: v.x + p.x - prev.x, y: v.y + p.y - prev.y }, false)
+    }
+
+    const onPointerUp = (ev: PointerEvent) => {
+      if (!pointers.delete(ev.pointerId)) return
+      if (pointers.size === 1) {
+        // Termina el pellizco: se sigue desplazando con el dedo que queda
+        pinch = null
+        start = [...pointers.values()][0]
+      }
+      if (pointers.size > 0) return
+      lastTap = ev.type === 'pointerup' && ev.pointerType === 'touch' && !dragging && !suppressClick
+        ? { time: ev.timeStamp, ...local(ev) }
+        : null
+      start = null
+      pinch = null
+      dragging = false
+    }
+
+    // Un arrastre o un doble toque no deben seleccionar el trastero de debajo
+    const onClickCapture = (ev: MouseEvent) => {
+      if (!suppressClick) return
+      suppressClick = false
+      ev.stopPropagation()
+      ev.preventDefault()
+    }
+
+    container.addEventListener('wheel', onWheel, { passive: false })
+    container.addEventListener('pointerdown', onPointerDown)
+    container.addEventListener('pointermove', onPointerMove)
+    container.addEventListener('pointerup', onPointerUp)
+    container.addEventListener('pointercancel', onPointerUp)
+    container.addEventListener('click', onClickCapture, true)
+    return () => {
+      container.removeEventListener('wheel', onWheel)
+      container.removeEventListener('pointerdown', onPointerDown)
+      container.removeEventListener('pointermove', onPointerMove)
+      container.removeEventListener('pointerup', onPointerUp)
+      container.removeEventListener('pointercancel', onPointerUp)
+      container.removeEventListener('click', onClickCapture, true)
+    }
+  }, [ready, containerRef, wheelNeedsModifier, commit, zoomAt, zoomToRect, reset])
+
+  return { view, animated, frame, zoomBy, reset, centerOn, revealRect, showRect, setFrame }
+}
@@ -1,10 +1,13 @@
 import planoPruebaUrl from '../assets/plans/plano-prueba-planta-1.svg?url'
+import planoPruebaPlanta2Url from '../assets/plans/plano-prueba-planta-2.svg?url'
 
-const LOCAL_PLAN_BY_TENANT: Record<string, string> = {
-  prueba: planoPruebaUrl,
+/** SVG locales por tenant, uno por planta en el orden del plan */
+const LOCAL_PLANS_BY_TENANT: Record<string, string[]> = {
+  prueba: [planoPruebaUrl, planoPruebaPlanta2Url],
 }
 
-export function getLocalPlanSvgUrl(tenantSlug: string): string | null {
+/** SVG local de la planta `floorIndex` (0 = la primera), si el tenant lo tiene. */
+export function getLocalPlanSvgUrl(tenantSlug: string, floorIndex = 0): string | null {
   const key = tenantSlug.trim().toLowerCase()
-  return LOCAL_PLAN_BY_TENANT[key] ?? null
+  return LOCAL_PLANS_BY_TENANT[key]?.[floorIndex] ?? null
 }
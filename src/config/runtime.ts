@@ -0,0 +1,248 @@
+import { API_BASE } from './api'
+import { primaryColorVariables } from './theme'
+
+// ─── Tipos ────────────────────────────────────────────────────────────
+
+/** Funcionalidades que cada despliegue puede desactivar */
+export interface RuntimeFeatures {
+  /** Recoloreado del plano en tiempo real (SSE / polling) */
+  liveAvailability: boolean
+  /** Bloqueo temporal de los trasteros al salir del paso 2 */
+  unitHolds: boolean
+}
+
+/** Backend simulado en el navegador (demos y desarrollo sin servidor) */
+export interface RuntimeMock {
+  enabled: boolean
+  /** Latencia media simulada por petición */
+  latencyMs: number
+  /** Probabilidad (0–1) de que una petición falle con 503 */
+  errorRate: number
+  /** Endpoints que fallan siempre: plan, settings, extras, lead, abandon, upload, hold, confirm */
+  fail: string[]
+  /** Tenant si la URL no trae `?tenant=` (debe tener fixture) */
+  defaultTenant: string
+}
+
+export interface RuntimeTheme {
+  /** Color principal (botones, stepper, enlaces). Cualquier color CSS */
+  primaryColor?: string
+  fontFamily?: string
+}
+
+/**
+ * Configuración del despliegue, leída al arrancar. Permite servir el mismo
+ * `dist/` en las webs de varios clientes cambiando solo este fichero.
+ */
+export interface RuntimeConfig {
+  /** Base del backend; vacío → rutas relativas */
+  apiBase: string
+  /** Tenant si la URL no trae `?tenant=` */
+  defaultTenant: string
+  /** Locale para fechas e importes (los textos siguen en español) */
+  locale: string
+  features: RuntimeFeatures
+  theme: RuntimeTheme
+  mock: RuntimeMock
+}
+
+/** Lo que se puede indicar en `config.json` o `window.__RESERVA_CONFIG__`; todo es opcional */
+export type RuntimeConfigInput = Partial<Omit<RuntimeConfig, 'features' | 'theme' | 'mock'>> & {
+  features?: Partial<RuntimeFeatures>
+  theme?: RuntimeTheme
+  mock?: Partial<RuntimeMock>
+}
+
+declare global {
+  interface Window {
+    /** Configuración inline para integraciones que no pueden servir config.json */
+    __RESERVA_CONFIG__?: RuntimeConfigInput
+  }
+}
+
+const DEFAULT_CONFIG: RuntimeConfig = {
+  apiBase: API_BASE,
+  defaultTenant: 'maxibox',
+  locale: 'es-ES',
+  features: {
+    liveAvailability: true,
+    unitHolds: true,
+  },
+  theme: {},
+  mock: {
+    enabled: false,
+    latencyMs: 400,
+    errorRate: 0,
+    fail: [],
+    defaultTenant: 'prueba',
+  },
+}
+
+let current: RuntimeConfig = DEFAULT_CONFIG
+
+/** Configuración activa. Antes de `loadRuntimeConfig` devuelve los valores por defecto. */
+export function getRuntimeConfig(): RuntimeConfig {
+  return current
+}
+
+// ─── Lectura ──────────────────────────────────────────────────────────
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+/**
+ * Combina `base` con lo válido de `raw`. Los campos con tipo incorrecto se
+ * ignoran con un aviso en consola en lugar de romper el arranque.
+ */
+function mergeConfig(base: RuntimeConfig, raw: unknown, source: string): RuntimeConfig {
+  if (raw === undefined) return base
+  if (!isObject(raw)) {
+    console.warn(`[Config] ${source} no es un objeto; se ignora`)
+    return base
+  }
+  const warn = (key: string) => console.warn(`[Config] ${source}: "${key}" no es válido; se ignora`)
+  const readString = (obj: Record<string, unknown>, key: string, path: string): string | undefined => {
+    if (obj[key] === undefined) return undefined
+    if (typeof obj[key] === 'string') return obj[key]
+    warn(path)
+    return undefined
+  }
+
+  const next: RuntimeConfig = {
+    ...base,
+    features: { ...base.features },
+    theme: { ...base.theme },
+    mock: { ...base.mock },
+  }
+
+  const apiBase = readString(raw, 'apiBase', 'apiBase')
+  if (apiBase !== undefined) next.apiBase = apiBase.replace(/\/$/, '')
+  const defaultTenant = readString(raw, 'defaultTenant', 'defaultTenant')
+  if (defaultTenant) next.defaultTenant = defaultTenant
+  const locale = readString(raw, 'locale', 'locale')
+  if (locale) {
+    try {
+      next.locale = Intl.getCanonicalLocales(locale)[0]
+    } catch {
+      warn('locale')
+    }
+  }
+
+  if (isObject(raw.features)) {
+    for (const key of Object.keys(next.features) as (keyof RuntimeFeatures)[]) {
+      const value = raw.features[key]
+      if (value === undefined) continue
+      if (typeof value === 'boolean') next.features[key] = value
+      else warn(`features.${key}`)
+    }
+  } else if (raw.features !== undefined) {
+    warn('features')
+  }
+
+  if (isObject(raw.theme)) {
+    const primaryColor = readString(raw.theme, 'primaryColor', 'theme.primaryColor')
+    if (primaryColor) next.theme.primaryColor = primaryColor
+    const fontFamily = readString(raw.theme, 'fontFamily', 'theme.fontFamily')
+    if (fontFamily) next.theme.fontFamily = fontFamily
+  } else if (raw.theme !== undefined) {
+    warn('theme')
+  }
+
+  if (isObject(raw.mock)) {
+    const { enabled, latencyMs, errorRate, fail } = raw.mock
+    if (typeof enabled === 'boolean') next.mock.enabled = enabled
+    else if (enabled !== undefined) warn('mock.enabled')
+    if (typeof latencyMs === 'number' && latencyMs >= 0) next.mock.latencyMs = latencyMs
+    else if (latencyMs !== undefined) warn('mock.latencyMs')
+    if (typeof errorRate === 'number' && errorRate >= 0 && errorRate <= 1) next.mock.errorRate = errorRate
+    else if (errorRate !== undefined) warn('mock.errorRate')
+    if (Array.isArray(fail)) next.mock.fail = fail.filter((f): f is string => typeof f === 'string')
+    else if (fail !== undefined) warn('mock.fail')
+    const defaultTenant = readString(raw.mock, 'defaultTenant', 'mock.defaultTenant')
+    if (defaultTenant) next.mock.defaultTenant = defaultTenant
+  } else if (raw.mock !== undefined) {
+    warn('mock')
+  }
+
+  return next
+}
+
+/**
+ * El modo demo también se activa desde la URL, sin tocar la configuración:
+ * `?mock=1&mockLatency=1500&mockErrorRate=0.2&mockFail=confirm,lead`
+ */
+function mockFromQuery(search: string): RuntimeConfigInput['mock'] {
+  const params = new URLSearchParams(search)
+  if (!params.has('mock')) return undefined
+  const mock: Partial<RuntimeMock> = { enabled: !['0', 'false', 'off'].includes(params.get('mock')!) }
+  const latency = Number(params.get('mockLatency'))
+  if (params.has('mockLatency') && !Number.isNaN(latency)) mock.latencyMs = latency
+  const errorRate = Number(params.get('mockErrorRate'))
+  if (params.has('mockErrorRate') && !Number.isNaN(errorRate)) mock.errorRate = errorRate
+  if (params.has('mockFail')) mock.fail = params.get('mockFail')!.split(',').map(s => s.trim()).filter(Boolean)
+  return mock
+}
+
+/** Un config.json que no responde no debe dejar la página en blanco */
+const CONFIG_FETCH_TIMEOUT_MS = 5000
+
+/** `config.json` junto al index.html. Si no existe, se usan los valores por defecto. */
+async function fetchConfigFile(): Promise<unknown> {
+  const url = `${import.meta.env.BASE_URL}config.json`
+  try {
+    const res = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(CONFIG_FETCH_TIMEOUT_MS) })
+    // El fallback SPA de algunos servidores devuelve index.html con 200
+    if (!res.ok || !(res.headers.get('content-type') ?? '').includes('json')) return undefined
+    return await res.json()
+  } catch (err) {
+    console.warn('[Config] No se pudo leer', url, err)
+    return undefined
+  }
+}
+
+/**
+ * Carga la configuración del despliegue. Prioridad (de menor a mayor):
+ * valores por defecto y `VITE_API_BASE` → `config.json` → `window.__RESERVA_CONFIG__`
+ * → parámetros `mock*` de la URL.
+ */
+export async function loadRuntimeConfig(): Promise<RuntimeConfig> {
+  const fileConfig = await fetchConfigFile()
+  let config = mergeConfig(DEFAULT_CONFIG, fileConfig, 'config.json')
+  config = mergeConfig(config, window.__RESERVA_CONFIG__, 'window.__RESERVA_CONFIG__')
+  const queryMock = mockFromQuery(window.location.search)
+  if (queryMock) config = mergeConfig(config, { mock: queryMock }, 'URL')
+  current = config
+  console.debug('[Config] Configuración activa:', config)
+  return config
+}
+
+/** Tenant de la URL (`?tenant=`) o, si no hay, el de la configuración (o el de demo). */
+export function readTenantFromUrl(config: RuntimeConfig = current): string {
+  const fallback = config.mock.enabled ? config.mock.defaultTenant : config.defaultTenant
+  return new URLSearchParams(window.location.search).get('tenant') || fallback
+}
+
+/** Ayudas de depuración activadas con `?debug=` (varias separadas por comas, p. ej. `?debug=plan`). */
+export function isDebugEnabled(flag: string): boolean {
+  const value = new URLSearchParams(window.location.search).get('debug')
+  return !!value && value.split(',').map(s => s.trim()).includes(flag)
+}
+
+// ─── Tema ─────────────────────────────────────────────────────────────
+
+/**
+ * Aplica el tema al documento. El color principal sustituye la escala azul
+ * de Tailwind que usan botones y stepper; los tonos se derivan con color-mix.
+ */
+export function applyRuntimeTheme(config: RuntimeConfig): void {
+  const root = document.documentElement
+  root.lang = config.locale.split('-')[0]
+  const { primaryColor, fontFamily } = config.theme
+  if (primaryColor) {
+    for (const [name, value] of Object.entries(primaryColorVariables(primaryColor))) {
+      root.style.setProperty(name, value)
+    }
+  }
+  if (fontFamily) root.style.setProperty('--reserva-font', fontFamily)
+}
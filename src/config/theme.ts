@@ -0,0 +1,90 @@
+import type { CSSProperties } from 'react'
+import type { TenantTheme } from '../types'
+
+// ─── Tema ─────────────────────────────────────────────────────────────
+//
+// La UI usa las clases de Tailwind tal cual (`bg-blue-600`, `rounded-xl`,
+// `text-gray-900`…). Para cambiar de marca se sobrescriben las variables CSS
+// de las que dependen esas clases: la escala azul pasa a ser la del color
+// principal, los radios se escalan desde uno base y, en modo oscuro, se
+// invierte la escala de grises (ver `.reserva-theme` en index.css).
+
+/** Superficie de las tarjetas en modo oscuro; los tonos claros se mezclan con ella */
+const DARK_SURFACE = '#161a20'
+
+/** Tonos de la escala principal: % del color y con qué se mezcla */
+const PRIMARY_SCALE: Record<string, [number, 'light' | 'black']> = {
+  50:  [7, 'light'],
+  100: [15, 'light'],
+  200: [25, 'light'],
+  300: [45, 'light'],
+  400: [65, 'light'],
+  500: [85, 'light'],
+  700: [85, 'black'],
+  800: [70, 'black'],
+}
+
+/**
+ * En modo oscuro los tonos de texto (700, 800) se aclaran hacia blanco: mezclados
+ * con negro no se leerían sobre la superficie oscura ni sobre `bg-blue-50`.
+ */
+const DARK_TEXT_SCALE: Record<string, number> = {
+  700: 55,
+  800: 40,
+}
+
+/** Radios de Tailwind relativos a `rounded-lg` (0.5rem) */
+const RADIUS_SCALE: Record<string, number> = {
+  sm: 0.5,
+  md: 0.75,
+  lg: 1,
+  xl: 1.5,
+  '2xl': 2,
+  '3xl': 3,
+}
+
+/**
+ * Variables que sustituyen la escala azul de Tailwind por la del color
+ * principal. En modo oscuro los tonos claros se derivan de la superficie
+ * oscura para que los fondos resaltados no deslumbren, y los de texto se aclaran.
+ */
+export function primaryColorVariables(primaryColor: string, dark = false): Record<string, string> {
+  const vars: Record<string, string> = { '--color-blue-600': primaryColor }
+  for (const [shade, [pct, mix]] of Object.entries(PRIMARY_SCALE)) {
+    if (dark && shade in DARK_TEXT_SCALE) {
+      vars[`--color-blue-${shade}`] = `color-mix(in srgb, ${primaryColor} ${DARK_TEXT_SCALE[shade]}%, white)`
+      continue
+    }
+    const base = mix === 'black' ? 'black' : dark ? DARK_SURFACE : 'white'
+    vars[`--color-blue-${shade}`] = `color-mix(in srgb, ${primaryColor} ${pct}%, ${base})`
+  }
+  return vars
+}
+
+/**
+ * Estilo del contenedor del wizard con el tema del tenant. Todo son variables
+ * CSS, así que solo afecta a lo que cuelga de ese contenedor: varias marcas
+ * pueden convivir en la misma página.
+ */
+export function tenantThemeStyle(theme: TenantTheme | undefined, dark: boolean): CSSProperties {
+  const vars: Record<string, string> = {}
+  if (theme?.primaryColor) {
+    Object.assign(vars, primaryColorVariables(theme.primaryColor, dark))
+  } else if (dark) {
+    // Sin color propio se oscurecen los tonos claros del color heredado (Tailwind o config.json)
+    Object.assign(vars, primaryColorVariables('var(--color-blue-600)', true))
+    delete vars['--color-blue-600']
+  }
+  if (theme?.fontFamily) vars['--reserva-font'] = theme.fontFamily
+  if (theme?.borderRadius !== undefined) {
+    for (const [size, factor] of Object.entries(RADIUS_SCALE)) {
+      vars[`--radius-${size}`] = `${theme.borderRadius * factor}px`
+    }
+  }
+  const palette = theme?.planColors
+  if (palette?.available) vars['--plan-available'] = palette.available
+  if (palette?.selected)  vars['--plan-selected']  = palette.selected
+  if (palette?.occupied)  vars['--plan-occupied']  = palette.occupied
+  if (palette?.filtered)  vars['--plan-filtered']  = palette.filtered
+  return vars as CSSProperties
+}
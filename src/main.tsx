@@ -2,9 +2,40 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadRuntimeConfig, applyRuntimeTheme, getRuntimeConfig, type RuntimeConfig } from './config/runtime'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const rootEl = document.getElementById('root')!
+
+async function start(config: RuntimeConfig) {
+  applyRuntimeTheme(config)
+  // El backend simulado va en un chunk aparte: no pesa en producción si no se usa
+  const fetchImpl = config.mock.enabled
+    ? (await import('./mock/mockBackend')).createMockFetch(config.mock)
+    : undefined
+  createRoot(rootEl).render(
+    <StrictMode>
+      <App config={config} fetch={fetchImpl} />
+    </StrictMode>,
+  )
+}
+
+/** Sin React todavía: un aviso en texto plano en lugar de la página en blanco */
+function showStartupError() {
+  const message = document.createElement('p')
+  message.setAttribute('role', 'alert')
+  message.style.cssText = 'max-width:32rem;margin:4rem auto;padding:0 1rem;font-family:system-ui,sans-serif;text-align:center;color:#374151'
+  message.textContent = 'No se pudo cargar la página. Recárgala en unos minutos.'
+  rootEl.replaceChildren(message)
+}
+
+loadRuntimeConfig()
+  .catch(err => {
+    // Sin configuración del despliegue se arranca con los valores por defecto
+    console.warn('[Config] No se pudo cargar la configuración; se usan los valores por defecto', err)
+    return getRuntimeConfig()
+  })
+  .then(start)
+  .catch(err => {
+    console.error('[App] No se pudo arrancar la aplicación', err)
+    showStartupError()
+  })
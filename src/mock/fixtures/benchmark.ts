@@ -0,0 +1,90 @@
+// ─── Fixture de rendimiento ──────────────────────────────────────────
+//
+// Centro sintético con 2.000 trasteros en una sola planta, para medir el
+// plano con inventarios grandes (`?mock=1&tenant=benchmark`). Se genera al
+// cargar: el SVG va como `data:` URL y los trasteros siguen una rejilla de
+// pasillos con tamaños, precios y estados repartidos de forma determinista.
+
+const UNIT_COUNT = 2000
+const COLUMNS = 50
+const CELL = 20
+const GAP = 4
+/** Cada cuántas filas hay un pasillo horizontal */
+const ROWS_PER_BLOCK = 4
+const AISLE = 16
+
+const SIZES = ['1x1', '1.5x2', '2x2', '2x3', '3x3', '3x4'] as const
+const BASE_PRICE: Record<typeof SIZES[number], number> = {
+  '1x1': 25, '1.5x2': 45, '2x2': 60, '2x3': 80, '3x3': 105, '3x4': 135,
+}
+
+function shapeId(n: number): string {
+  return `T${String(n).padStart(4, '0')}`
+}
+
+function cellPosition(index: number): { x: number; y: number } {
+  const row = Math.floor(index / COLUMNS)
+  const col = index % COLUMNS
+  return {
+    x: GAP + col * (CELL + GAP),
+    y: GAP + row * (CELL + GAP) + Math.floor(row / ROWS_PER_BLOCK) * AISLE,
+  }
+}
+
+function createSvg(): string {
+  const rows = Math.ceil(UNIT_COUNT / COLUMNS)
+  const width = GAP + COLUMNS * (CELL + GAP)
+  const height = cellPosition((rows - 1) * COLUMNS).y + CELL + GAP
+  const rects: string[] = []
+  for (let i = 0; i < UNIT_COUNT; i++) {
+    const { x, y } = cellPosition(i)
+    rects.push(`<rect id="${shapeId(i + 1)}" x="${x}" y="${y}" width="${CELL}" height="${CELL}" fill="#fff" stroke="#9ca3af"/>`)
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="${width}" height="${height}" fill="#f3f4f6"/>${rects.join('')}</svg>`
+}
+
+function createUnits() {
+  return Array.from({ length: UNIT_COUNT }, (_, i) => {
+    const n = i + 1
+    const size = SIZES[(i * 7) % SIZES.length]
+    // ~70 % libres; el resto ocupados o reservados
+    const status = i % 10 < 7 ? 'AVAILABLE' : i % 10 < 9 ? 'OCCUPIED' : 'RESERVED'
+    return {
+      id: `bench-unit-${n}`,
+      number: n,
+      shapeId: shapeId(n),
+      status,
+      type: 'STANDARD',
+      price: BASE_PRICE[size] + (i % 5) * 3,
+      dimensions: size,
+      attributes: {
+        floor: 0,
+        groundFloor: true,
+        lighting: true,
+        powerSocket: i % 3 === 0,
+        climateControl: i % 4 === 0,
+      },
+    }
+  })
+}
+
+const benchmarkFixture = {
+  settings: {
+    name: 'Centro de pruebas de rendimiento (2.000 trasteros)',
+    billingMode: 'BOTH',
+    requireDniUpload: false,
+    holdMinutes: 15,
+  },
+  plan: {
+    floors: [{
+      id: 'bench-planta',
+      name: 'Planta única',
+      svgUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(createSvg())}`,
+      storageUnits: createUnits(),
+    }],
+  },
+  extras: { groups: [] },
+}
+
+export default benchmarkFixture
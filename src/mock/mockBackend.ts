@@ -0,0 +1,411 @@
+import { getLocalPlanSvgUrl } from '../config/localPlans'
+import { IDEMPOTENCY_HEADER } from '../services/api'
+import type { RuntimeMock } from '../config/runtime'
+import type { RawPlanFloor, RawStorageUnit } from '../types'
+import benchmarkFixture from './fixtures/benchmark'
+import pruebaFixture from './fixtures/prueba.json'
+
+// ─── Backend simulado ─────────────────────────────────────────────────
+//
+// Implementa en el navegador los endpoints públicos que usa el wizard a
+// partir de fixtures JSON por tenant. Se inyecta como `fetch` del cliente
+// de la API (ver createApiClient), así que la app recorre el mismo código
+// que contra el backend real: validadores, ApiError, reintentos…
+//
+// El estado (trasteros confirmados, bloqueos, leads) vive en memoria y se
+// pierde al recargar.
+
+/** Plantas del fixture; sin `svgUrl` se usa el SVG local de esa planta */
+type MockFloor = Omit<RawPlanFloor, 'svgUrl'> & { svgUrl?: string }
+
+interface MockFixture {
+  settings: unknown
+  plan: { floors: MockFloor[] }
+  extras: unknown
+}
+
+const FIXTURES: Record<string, MockFixture> = {
+  prueba: pruebaFixture as MockFixture,
+  benchmark: benchmarkFixture as MockFixture,
+}
+
+/** Endpoints a los que se puede forzar un error con `mock.fail` */
+const MOCK_ENDPOINTS = ['plan', 'settings', 'extras', 'lead', 'abandon', 'upload', 'hold', 'confirm'] as const
+type MockEndpoint = typeof MOCK_ENDPOINTS[number]
+
+// ─── Estado en memoria ────────────────────────────────────────────────
+
+interface MockHold {
+  tenant: string
+  storageUnitIds: string[]
+  durationMs: number
+  expiresAt: number
+}
+
+interface TenantState {
+  fixture: MockFixture
+  /** Estado base de todas las plantas; los bloqueos activos se superponen como RESERVED */
+  units: RawStorageUnit[]
+}
+
+const tenants = new Map<string, TenantState>()
+const holds = new Map<string, MockHold>()
+const idempotentResponses = new Map<string, unknown>()
+let sequence = 0
+
+function nextId(prefix: string): string {
+  sequence++
+  return `${prefix}-${Date.now().toString(36)}-${sequence}`
+}
+
+function tenantState(tenant: string): TenantState | null {
+  const key = tenant.trim().toLowerCase()
+  const existing = tenants.get(key)
+  if (existing) return existing
+  const fixture = FIXTURES[key]
+  if (!fixture) return null
+  const state = { fixture, units: fixture.plan.floors.flatMap(f => f.storageUnits.map(u => ({ ...u }))) }
+  tenants.set(key, state)
+  return state
+}
+
+function purgeExpiredHolds() {
+  const now = Date.now()
+  for (const [id, hold] of holds) {
+    if (hold.expiresAt <= now) holds.delete(id)
+  }
+}
+
+/** Trasteros bloqueados por otros bloqueos distintos de `exceptHoldId` */
+function heldUnitIds(tenant: string, exceptHoldId?: string): Set<string> {
+  purgeExpiredHolds()
+  const ids = new Set<string>()
+  for (const [id, hold] of holds) {
+    if (hold.tenant === tenant && id !== exceptHoldId) hold.storageUnitIds.forEach(u => ids.add(u))
+  }
+  return ids
+}
+
+function unavailable(state: TenantState, tenant: string, unitIds: string[], ownHoldId?: string): string[] {
+  const held = heldUnitIds(tenant, ownHoldId)
+  return unitIds.filter(id => {
+    const unit = state.units.find(u => u.id === id)
+    return !unit || unit.status !== 'AVAILABLE' || held.has(id)
+  })
+}
+
+// ─── Respuestas ───────────────────────────────────────────────────────
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 })
+}
+
+function tenantNotFound(tenant: string): Response {
+  return json(404, { message: `Tenant "${tenant}" no encontrado (backend simulado)`, code: 'TENANT_NOT_FOUND' })
+}
+
+function unitsTaken(unitIds: string[]): Response {
+  return json(409, {
+    message: 'Alguno de los trasteros ya no está disponible',
+    code: 'UNIT_NOT_AVAILABLE',
+    failedUnits: unitIds.map(storageUnitId => ({
+      storageUnitId,
+      code: 'UNIT_NOT_AVAILABLE',
+      message: 'Otra persona lo acaba de reservar',
+    })),
+  })
+}
+
+/** Error forzado con `mock.fail`: el que el backend real devolvería en cada caso */
+function forcedFailure(endpoint: MockEndpoint, body: Record<string, unknown>): Response {
+  switch (endpoint) {
+    case 'lead':
+      return json(422, {
+        message: ['email must be an email'],
+        fieldErrors: { email: 'El email no es válido (error simulado)' },
+      })
+    case 'upload':
+      return json(413, { message: 'El archivo es demasiado grande (error simulado)' })
+    case 'hold':
+    case 'confirm': {
+      const ids = Array.isArray(body.units)
+        ? (body.units as { storageUnitId: string }[]).map(u => u.storageUnitId)
+        : Array.isArray(body.storageUnitIds) ? body.storageUnitIds as string[]
+        : typeof body.storageUnitId === 'string' ? [body.storageUnitId] : []
+      return unitsTaken(ids.slice(0, 1))
+    }
+    default:
+      return json(500, { message: `Error simulado en ${endpoint}` })
+  }
+}
+
+// ─── Rutas ────────────────────────────────────────────────────────────
+
+interface MockRequest {
+  method: string
+  params: string[]
+  body: Record<string, unknown>
+  form: FormData | null
+  headers: Headers
+}
+
+interface Route {
+  method: string
+  path: RegExp
+  endpoint: MockEndpoint
+  handle: (req: MockRequest) => Response
+}
+
+function planResponse(tenant: string): Response {
+  const state = tenantState(tenant)
+  if (!state) return tenantNotFound(tenant)
+  const held = heldUnitIds(tenant)
+  const current = new Map(state.units.map(u => [u.id, u]))
+  return json(200, {
+    floors: state.fixture.plan.floors.map((floor, i) => ({
+      id: floor.id,
+      name: floor.name,
+      svgUrl: floor.svgUrl ?? getLocalPlanSvgUrl(tenant, i) ?? '',
+      storageUnits: floor.storageUnits.map(({ id }) => {
+        const u = current.get(id)!
+        return u.status === 'AVAILABLE' && held.has(u.id) ? { ...u, status: 'RESERVED' } : u
+      }),
+    })),
+  })
+}
+
+/** Reserva los trasteros (todo o nada) y consume el bloqueo indicado. */
+function confirmUnits(req: MockRequest, unitIds: string[]): Response {
+  const tenant = String(req.body.tenantSlug ?? '')
+  const state = tenantState(tenant)
+  if (!state) return tenantNotFound(tenant)
+
+  const key = req.headers.get(IDEMPOTENCY_HEADER)
+  if (key && idempotentResponses.has(key)) return json(200, idempotentResponses.get(key))
+
+  const holdId = typeof req.body.holdId === 'string' ? req.body.holdId : undefined
+  const taken = unavailable(state, tenant, unitIds, holdId)
+  if (taken.length > 0) return unitsTaken(taken)
+
+  for (const unit of state.units) {
+    if (unitIds.includes(unit.id)) unit.status = 'OCCUPIED'
+  }
+  if (holdId) holds.delete(holdId)
+
+  const response = {
+    success: true,
+    message: 'Reserva confirmada (backend simulado)',
+    customerId: nextId('customer'),
+    contracts: unitIds.map(storageUnitId => ({ storageUnitId, contractId: nextId('contract') })),
+    portalCredentials: {
+      username: String(req.body.email ?? 'demo@example.com'),
+      temporaryPassword: 'Demo-1234',
+    },
+  }
+  if (key) idempotentResponses.set(key, response)
+  return json(200, response)
+}
+
+function holdResponse(holdId: string, hold: MockHold): Response {
+  return json(200, { holdId, storageUnitIds: hold.storageUnitIds, expiresAt: new Date(hold.expiresAt).toISOString() })
+}
+
+const ROUTES: Route[] = [
+  {
+    method: 'GET',
+    path: /^\/api\/public\/plan\/([^/]+)$/,
+    endpoint: 'plan',
+    handle: req => planResponse(req.params[0]),
+  },
+  {
+    method: 'GET',
+    path: /^\/api\/public\/reservations\/settings\/([^/]+)$/,
+    endpoint: 'settings',
+    handle: req => {
+      const state = tenantState(req.params[0])
+      return state ? json(200, state.fixture.settings) : tenantNotFound(req.params[0])
+    },
+  },
+  {
+    method: 'GET',
+    path: /^\/api\/public\/reservations\/extras\/([^/]+)$/,
+    endpoint: 'extras',
+    handle: req => {
+      const state = tenantState(req.params[0])
+      return state ? json(200, state.fixture.extras) : tenantNotFound(req.params[0])
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/api\/public\/reservations\/leads$/,
+    endpoint: 'lead',
+    handle: req => {
+      const tenant = String(req.body.tenantSlug ?? '')
+      return tenantState(tenant) ? json(201, { leadId: nextId('lead') }) : tenantNotFound(tenant)
+    },
+  },
+  {
+    method: 'PATCH',
+    path: /^\/api\/public\/reservations\/leads\/([^/]+)\/abandon$/,
+    endpoint: 'abandon',
+    handle: () => noContent(),
+  },
+  {
+    method: 'POST',
+    path: /^\/api\/public\/uploads\/dni$/,
+    endpoint: 'upload',
+    handle: req => {
+      const file = req.form?.get('file')
+      if (!(file instanceof File)) return json(400, { message: 'Falta el archivo', fieldErrors: { file: 'Falta el archivo' } })
+      return json(201, {
+        success: true,
+        filePath: `/uploads/demo/${encodeURIComponent(file.name)}`,
+        originalName: file.name,
+        size: file.size,
+      })
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/api\/public\/reservations\/holds$/,
+    endpoint: 'hold',
+    handle: req => {
+      const tenant = String(req.body.tenantSlug ?? '')
+      const state = tenantState(tenant)
+      if (!state) return tenantNotFound(tenant)
+      const unitIds = Array.isArray(req.body.storageUnitIds) ? req.body.storageUnitIds as string[] : []
+      const taken = unavailable(state, tenant, unitIds)
+      if (taken.length > 0) return unitsTaken(taken)
+      const minutes = typeof req.body.durationMinutes === 'number' ? req.body.durationMinutes : 15
+      const holdId = nextId('hold')
+      const durationMs = minutes * 60_000
+      const hold = { tenant, storageUnitIds: unitIds, durationMs, expiresAt: Date.now() + durationMs }
+      holds.set(holdId, hold)
+      return holdResponse(holdId, hold)
+    },
+  },
+  {
+    method: 'PATCH',
+    path: /^\/api\/public\/reservations\/holds\/([^/]+)$/,
+    endpoint: 'hold',
+    handle: req => {
+      purgeExpiredHolds()
+      const holdId = req.params[0]
+      const hold = holds.get(holdId)
+      if (!hold) return json(404, { message: 'El bloqueo no existe o ha caducado' })
+      if (Array.isArray(req.body.storageUnitIds)) {
+        const unitIds = req.body.storageUnitIds as string[]
+        const taken = unavailable(tenantState(hold.tenant)!, hold.tenant, unitIds, holdId)
+        if (taken.length > 0) return unitsTaken(taken)
+        hold.storageUnitIds = unitIds
+      }
+      hold.expiresAt = Date.now() + hold.durationMs
+      return holdResponse(holdId, hold)
+    },
+  },
+  {
+    method: 'DELETE',
+    path: /^\/api\/public\/reservations\/holds\/([^/]+)$/,
+    endpoint: 'hold',
+    handle: req => {
+      holds.delete(req.params[0])
+      return noContent()
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/api\/public\/reservations\/confirm-full$/,
+    endpoint: 'confirm',
+    handle: req => confirmUnits(req, typeof req.body.storageUnitId === 'string' ? [req.body.storageUnitId] : []),
+  },
+  {
+    method: 'POST',
+    path: /^\/api\/public\/reservations\/confirm-batch$/,
+    endpoint: 'confirm',
+    handle: req => {
+      const units = Array.isArray(req.body.units) ? req.body.units as { storageUnitId: string }[] : []
+      return confirmUnits(req, units.map(u => u.storageUnitId))
+    },
+  },
+]
+
+// ─── fetch simulado ───────────────────────────────────────────────────
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+function parseBody(body: BodyInit | null | undefined): { body: Record<string, unknown>; form: FormData | null } {
+  if (body instanceof FormData) return { body: {}, form: body }
+  if (typeof body !== 'string') return { body: {}, form: null }
+  try {
+    const parsed = JSON.parse(body)
+    return { body: parsed && typeof parsed === 'object' ? parsed : {}, form: null }
+  } catch {
+    return { body: {}, form: null }
+  }
+}
+
+/**
+ * Crea un `fetch` que responde con el backend simulado. Las rutas que no
+ * conoce (p. ej. el SVG del plano) se delegan en el fetch real.
+ */
+export function createMockFetch(options: RuntimeMock): typeof fetch {
+  const forced = new Set(options.fail.filter((f): f is MockEndpoint => {
+    const known = (MOCK_ENDPOINTS as readonly string[]).includes(f)
+    if (!known) console.warn(`[Mock] Endpoint desconocido en mock.fail: "${f}". Válidos: ${MOCK_ENDPOINTS.join(', ')}`)
+    return known
+  }))
+  console.info('[Mock] Backend simulado activo', {
+    tenants: Object.keys(FIXTURES),
+    latencyMs: options.latencyMs,
+    errorRate: options.errorRate,
+    fail: [...forced],
+  })
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), window.location.href)
+    const method = (init?.method ?? 'GET').toUpperCase()
+
+    let route: Route | undefined
+    let params: string[] = []
+    for (const candidate of ROUTES) {
+      const match = candidate.method === method ? url.pathname.match(candidate.path) : null
+      if (match) {
+        route = candidate
+        params = match.slice(1).map(decodeURIComponent)
+        break
+      }
+    }
+    if (!route) return fetch(input, init)
+
+    // Latencia con ±50% de variación para que se noten los estados de carga
+    await delay(options.latencyMs * (0.5 + Math.random()), init?.signal)
+
+    const { body, form } = parseBody(init?.body)
+    let res: Response
+    if (forced.has(route.endpoint)) {
+      res = forcedFailure(route.endpoint, body)
+    } else if (Math.random() < options.errorRate) {
+      res = json(503, { message: 'Servicio no disponible (error simulado)' })
+    } else {
+      res = route.handle({ method, params, body, form, headers: new Headers(init?.headers) })
+    }
+    console.debug('[Mock]', method, url.pathname, res.status)
+    return res
+  }
+}
@@ -1,56 +1,106 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { PlanoSVG } from '../components/PlanoSVG'
+import { FloorSwitcher } from '../components/FloorSwitcher'
 import { PanelLateral } from '../components/PanelLateral'
-import { getPlan } from '../services/api'
+import { TakenUnitsNotice } from '../components/TakenUnitsNotice'
+import { useApiClient } from '../services/apiClientContext'
+import { isAbortError } from '../services/api'
+import { getApiErrorMessage } from '../services/apiError'
+import { subscribeToUnitStatus, applyStatusChanges } from '../services/unitStatus'
 import { getLocalPlanSvgUrl } from '../config/localPlans'
-import type { StorageUnit } from '../types'
-
-const DEFAULT_TENANT = 'maxibox'
-
-function readTenantSlug(): string {
-  const params = new URLSearchParams(window.location.search)
-  return params.get('tenant') || DEFAULT_TENANT
-}
+import { getRuntimeConfig } from '../config/runtime'
+import type { PlanFloor, StorageUnit } from '../types'
 
+/** Usa el cliente de la API del ApiClientContext; su tenant es el de la página. */
 export function ReservasPage() {
-  const tenantSlug = useMemo(() => {
-    const slug = readTenantSlug()
-    console.debug('[ReservasPage] tenantSlug leído:', slug)
-    return slug
-  }, [])
+  const api = useApiClient()
+  const { tenantSlug } = api
 
   const [plan, setPlan] = useState<{
-    svgUrl: string
+    floors: PlanFloor[]
     storageUnits: StorageUnit[]
   } | null>(null)
+  const [activeFloorId, setActiveFloorId]       = useState<string | null>(null)
   const [loading, setLoading]                   = useState(true)
   const [error, setError]                       = useState<string | null>(null)
   const [filterByDimensions, setFilterByDimensions] = useState<number | null>(null)
   const [selectedUnits, setSelectedUnits]       = useState<StorageUnit[]>([])
+  // Seleccionados que otra persona ha reservado mientras tanto (aviso)
+  const [takenUnits, setTakenUnits]             = useState<StorageUnit[]>([])
 
-  const loadPlan = useCallback(async () => {
+  const loadPlan = useCallback(async (signal?: AbortSignal) => {
     setLoading(true)
     setError(null)
     console.debug('[ReservasPage] Cargando plan para tenant:', tenantSlug)
     try {
-      const localSvgUrl = getLocalPlanSvgUrl(tenantSlug)
-      const data = await getPlan(tenantSlug, { requireSvgUrl: !localSvgUrl })
-      const resolvedSvgUrl = localSvgUrl ?? data.svgUrl
+      const data = await api.getPlan({ requireSvgUrl: !getLocalPlanSvgUrl(tenantSlug), signal })
+      const floors = data.floors.map((floor, i) => ({
+        ...floor,
+        svgUrl: getLocalPlanSvgUrl(tenantSlug, i) ?? floor.svgUrl,
+      }))
 
-      if (!resolvedSvgUrl) throw new Error('No se pudo resolver una URL de plano válida')
+      if (floors.some(f => !f.svgUrl)) throw new Error('No se pudo resolver una URL de plano válida')
       if (!Array.isArray(data.storageUnits)) throw new Error('El backend no devolvió un array de trasteros')
 
-      setPlan({ svgUrl: resolvedSvgUrl, storageUnits: data.storageUnits })
+      setPlan({ floors, storageUnits: data.storageUnits })
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Error al cargar el plano'
+      if (isAbortError(err)) return
+      const msg = getApiErrorMessage(err, 'Error al cargar el plano')
       console.error('[ReservasPage] Error cargando plan:', msg)
       setError(msg)
     } finally {
-      setLoading(false)
+      if (!signal?.aborted) setLoading(false)
     }
-  }, [tenantSlug])
+  }, [api, tenantSlug])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadPlan(controller.signal)
+    return () => controller.abort()
+  }, [loadPlan])
 
-  useEffect(() => { loadPlan() }, [loadPlan])
+  // Disponibilidad en tiempo real: recolorea el plano
+  const planLoaded = plan !== null
+  const { liveAvailability } = getRuntimeConfig().features
+  useEffect(() => {
+    if (!planLoaded || !liveAvailability) return
+    return subscribeToUnitStatus(api, changes => {
+      setPlan(prev => {
+        if (!prev) return prev
+        const storageUnits = applyStatusChanges(prev.storageUnits, changes)
+        return storageUnits === prev.storageUnits ? prev : { ...prev, storageUnits }
+      })
+    })
+  }, [api, planLoaded, liveAvailability])
+
+  // Si un trastero seleccionado deja de estar disponible, se quita y se avisa
+  useEffect(() => {
+    if (!plan) return
+    const statusById = new Map(plan.storageUnits.map(u => [u.id, u.status]))
+    const taken = selectedUnits.filter(u => {
+      const status = statusById.get(u.id)
+      return status !== undefined && status !== 'AVAILABLE'
+    })
+    if (taken.length === 0) return
+    const takenIds = new Set(taken.map(u => u.id))
+    setSelectedUnits(prev => prev.filter(u => !takenIds.has(u.id)))
+    setTakenUnits(prev => [...prev.filter(p => !takenIds.has(p.id)), ...taken])
+  }, [plan, selectedUnits])
+
+  const activeFloor = plan?.floors.find(f => f.id === activeFloorId) ?? plan?.floors[0] ?? null
+  const floorUnits = useMemo(
+    () => plan && activeFloor ? plan.storageUnits.filter(u => u.floorId === activeFloor.id) : [],
+    [plan, activeFloor],
+  )
+  const availableByFloor = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const u of plan?.storageUnits ?? []) {
+      if (u.status !== 'AVAILABLE') continue
+      if (filterByDimensions !== null && u.dimensions !== filterByDimensions) continue
+      counts.set(u.floorId, (counts.get(u.floorId) ?? 0) + 1)
+    }
+    return counts
+  }, [plan, filterByDimensions])
 
   // Añade o quita una unidad del array de seleccionadas
   const handleToggleUnit = useCallback((unit: StorageUnit) => {
@@ -92,7 +142,7 @@ export function ReservasPage() {
         <p className="text-red-600 mb-4">{error}</p>
         <button
           type="button"
-          onClick={loadPlan}
+          onClick={() => loadPlan()}
           className="rounded-lg bg-blue-600 text-white px-4 py-2 hover:bg-blue-700"
         >
           Reintentar
@@ -101,7 +151,7 @@ export function ReservasPage() {
     )
   }
 
-  if (!plan) return null
+  if (!plan || !activeFloor) return null
 
   return (
     <div className="min-h-screen flex flex-col lg:flex-row bg-gray-50">
@@ -114,10 +164,26 @@ export function ReservasPage() {
             Selecciona uno o varios trasteros en el plano y rellena el formulario
           </p>
         </header>
+        {takenUnits.length > 0 && (
+          <div className="mb-3">
+            <TakenUnitsNotice units={takenUnits} onDismiss={() => setTakenUnits([])} />
+          </div>
+        )}
+        {plan.floors.length > 1 && (
+          <div className="mb-3">
+            <FloorSwitcher
+              floors={plan.floors}
+              activeFloorId={activeFloor.id}
+              onSelect={setActiveFloorId}
+              availableByFloor={availableByFloor}
+            />
+          </div>
+        )}
         <div className="flex-1 min-h-0">
           <PlanoSVG
-            svgUrl={plan.svgUrl}
-            storageUnits={plan.storageUnits}
+            key={activeFloor.id}
+            svgUrl={activeFloor.svgUrl}
+            storageUnits={floorUnits}
             filterByDimensions={filterByDimensions}
             selectedUnits={selectedUnits}
             onToggleUnit={handleToggleUnit}
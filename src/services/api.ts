@@ -1,8 +1,19 @@
-import { API_BASE } from '../config/api'
+import { ApiError, apiErrorFromResponse, type StatusCodeMap } from './apiError'
+import {
+  validatePlanResponse,
+  validateStorageUnitList,
+  validateTenantSettings,
+  validateTenantExtras,
+  validateConfirmFullReservationResponse,
+  validateConfirmReservationBatchResponse,
+  validateUnitHold,
+  SINGLE_FLOOR_ID,
+  type ValidatedFloor,
+} from './validators'
 import type {
-  PlanResponse,
   RawStorageUnit,
   StorageUnit,
+  PlanFloor,
   ReservationPayload,
   ReservationSuccess,
   FullReservationPayload,
@@ -11,8 +22,12 @@ import type {
   CreateLeadResponse,
   ConfirmFullReservationPayload,
   ConfirmFullReservationResponse,
+  ConfirmReservationBatchPayload,
+  ConfirmReservationBatchResponse,
   UploadDniPhotoResponse,
   TenantExtrasResponse,
+  CreateHoldPayload,
+  UnitHold,
 } from '../types'
 
 // ─── Anti-cache ───────────────────────────────────────────────────────
@@ -22,63 +37,327 @@ const NO_CACHE_HEADERS: Record<string, string> = {
   'Pragma': 'no-cache',
 }
 
-// ─── Fetch genérico ───────────────────────────────────────────────────
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
 
-async function fetchApi<T>(
-  url: string,
-  options?: RequestInit
+// ─── Reintentos ───────────────────────────────────────────────────────
+
+export interface RetryOptions {
+  /** Reintentos adicionales tras el primer intento */
+  retries: number
+  /** Espera base; se duplica en cada intento (+ jitter) */
+  baseDelayMs: number
+}
+
+const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 400 }
+const MAX_RETRY_DELAY_MS = 5000
+
+/** Solo se reintentan fallos de red y errores 5xx: el resto no cambiará al repetir. */
+function isRetryable(err: unknown): boolean {
+  return err instanceof ApiError && (err.code === 'NETWORK' || err.status >= 500)
+}
+
+// ─── Cancelación ──────────────────────────────────────────────────────
+
+function abortError(): DOMException {
+  return new DOMException('La petición se ha cancelado', 'AbortError')
+}
+
+/** La petición se canceló con su AbortSignal: no es un fallo que mostrar. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError'
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  retry: RetryOptions | null,
+  signal?: AbortSignal | null,
 ): Promise<T> {
-  const fullUrl = `${API_BASE}${url}`
-  console.debug('[API] fetch:', options?.method ?? 'GET', fullUrl)
+  const retries = retry?.retries ?? 0
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err) || signal?.aborted) throw err
+      const base  = retry!.baseDelayMs
+      const delay = Math.min(MAX_RETRY_DELAY_MS, base * 2 ** attempt + Math.random() * base)
+      console.warn(`[API] Reintento ${attempt + 1}/${retries} en ${Math.round(delay)} ms:`, (err as Error).message)
+      await sleep(delay, signal)
+    }
+  }
+}
 
+/**
+ * Las peticiones sin efectos (GET) o con Idempotency-Key se reintentan por
+ * defecto; un POST sin clave podría duplicar datos en el backend.
+ */
+function defaultRetryFor(init: RequestInit): RetryOptions | null {
+  const method = (init.method ?? 'GET').toUpperCase()
+  if (method === 'GET' || method === 'HEAD') return DEFAULT_RETRY
+  const headers = new Headers(init.headers)
+  return headers.has(IDEMPOTENCY_HEADER) ? DEFAULT_RETRY : null
+}
+
+// ─── Fetch genérico ───────────────────────────────────────────────────
+
+/** Recursos que se guardan en caché unos segundos y se pueden invalidar */
+export type CacheResource = 'plan' | 'settings' | 'extras'
+
+interface FetchApiOptions extends RequestInit {
+  /** Reinterpreta status concretos para este endpoint (p. ej. 404 → TENANT_NOT_FOUND) */
+  statusCodes?: StatusCodeMap
+  /** `false` desactiva los reintentos; por defecto según el método (ver defaultRetryFor) */
+  retry?: RetryOptions | false
+  /** Mensaje para el cliente si la petición no llega al servidor */
+  networkErrorMessage?: string
+  /** Solo GET: conserva la respuesta `ttlMs` para las siguientes llamadas */
+  cacheAs?: { resource: CacheResource; ttlMs: number }
+  /** Solo GET: ignora la respuesta en caché (sigue compartiendo la petición en curso) */
+  fresh?: boolean
+}
+
+/**
+ * GET compartido entre las llamadas idénticas: mientras está en curso, y
+ * después durante el TTL si el recurso se cachea.
+ */
+interface SharedGet {
+  promise: Promise<unknown>
+  controller: AbortController
+  /** Llamadas que esperan la respuesta; si todas cancelan, se aborta la petición */
+  waiting: number
+  settled: boolean
+  expiresAt: number
+  resource?: CacheResource
+}
+
+/** Lo que cada cliente aporta a las peticiones (ver createApiClient). */
+interface HttpContext {
+  baseUrl: string
+  tenantSlug: string
+  headers: () => Record<string, string>
+  fetch: typeof fetch
+  gets: Map<string, SharedGet>
+}
+
+/** Opciones comunes a los métodos del cliente */
+export interface RequestOptions {
+  signal?: AbortSignal
+}
+
+/** Un intento: lanza ApiError si no hay conexión o la respuesta no es OK. */
+async function sendRequest(
+  http: HttpContext,
+  fullUrl: string,
+  init: RequestInit,
+  statusCodes: StatusCodeMap | undefined,
+  networkErrorMessage: string,
+): Promise<Response> {
   let res: Response
   try {
-    res = await fetch(fullUrl, {
-      ...options,
-      cache: 'no-store',
-      headers: {
-        ...NO_CACHE_HEADERS,
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-    })
+    res = await http.fetch(fullUrl, { ...init, cache: 'no-store' })
   } catch (networkErr) {
+    if (init.signal?.aborted) throw abortError()
     console.error('[API] Error de red:', networkErr)
-    throw new Error(
-      'No se pudo conectar con el servidor. Comprueba tu conexión o que el backend está activo.'
-    )
+    throw new ApiError(networkErrorMessage, { code: 'NETWORK' })
   }
 
   console.debug('[API] Respuesta status:', res.status, 'ok:', res.ok)
 
   if (res.status === 304) {
-    throw new Error('El servidor devolvió una respuesta en caché (304). Recarga la página.')
+    throw new ApiError('El servidor devolvió una respuesta en caché (304). Recarga la página.', {
+      status: 304,
+      code: 'INVALID_RESPONSE',
+    })
   }
 
   if (!res.ok) {
-    const text = await res.text()
-    let message = `Error ${res.status}`
-    try {
-      const json = JSON.parse(text)
-      if (json.message) message = Array.isArray(json.message) ? json.message.join(', ') : json.message
-      else if (json.error) message = json.error
-    } catch {
-      if (text) message = text
-    }
-    console.error('[API] Respuesta no-OK:', res.status, message)
-    throw new Error(message)
+    const apiErr = await apiErrorFromResponse(res, statusCodes)
+    console.error('[API] Respuesta no-OK:', res.status, apiErr.code, apiErr.message)
+    throw apiErr
   }
 
+  return res
+}
+
+async function parseJson<T>(res: Response): Promise<T> {
+  if (res.status === 204) return undefined as T
   const contentType = res.headers.get('content-type') ?? ''
   if (!contentType.includes('application/json')) {
     const text = await res.text()
     console.error('[API] Respuesta no es JSON. Content-Type:', contentType, 'Body:', text.substring(0, 200))
-    throw new Error(`El servidor devolvió una respuesta no-JSON (Content-Type: ${contentType})`)
+    throw new ApiError(`El servidor devolvió una respuesta no-JSON (Content-Type: ${contentType})`, {
+      status: res.status,
+      code: 'INVALID_RESPONSE',
+    })
   }
-
   return res.json() as Promise<T>
 }
 
+async function fetchApi<T>(
+  http: HttpContext,
+  url: string,
+  options?: FetchApiOptions
+): Promise<T> {
+  const fullUrl = `${http.baseUrl}${url}`
+  const {
+    statusCodes,
+    retry,
+    networkErrorMessage = 'No se pudo conectar con el servidor. Comprueba tu conexión o que el backend está activo.',
+    cacheAs,
+    fresh = false,
+    signal,
+    ...init
+  } = options ?? {}
+
+  // FormData fija su propio Content-Type (multipart con boundary)
+  const isFormData = typeof FormData !== 'undefined' && init.body instanceof FormData
+  const requestInit: RequestInit = {
+    ...init,
+    headers: {
+      ...NO_CACHE_HEADERS,
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+      ...http.headers(),
+      ...init.headers,
+    },
+  }
+
+  const retryOptions = retry === false ? null : retry ?? defaultRetryFor(requestInit)
+  const run = (runSignal?: AbortSignal | null) => {
+    console.debug('[API] fetch:', init.method ?? 'GET', fullUrl)
+    const attemptInit = { ...requestInit, signal: runSignal }
+    return withRetry(
+      async () => parseJson<T>(await sendRequest(http, fullUrl, attemptInit, statusCodes, networkErrorMessage)),
+      retryOptions,
+      runSignal,
+    )
+  }
+
+  const method = (init.method ?? 'GET').toUpperCase()
+  if (method !== 'GET') return run(signal)
+  return sharedGet<T>(http, sharedGetKey(fullUrl, requestInit.headers), run, { cacheAs, fresh, signal })
+}
+
+/**
+ * Clave de un GET compartido: la URL y las cabeceras efectivas. Una misma URL
+ * con otro `x-tenant-id` (o con otro token) es otra respuesta.
+ */
+function sharedGetKey(fullUrl: string, headers: HeadersInit | undefined): string {
+  const values = [...new Headers(headers)].map(([name, value]) => `${name}: ${value}`)
+  return [fullUrl, ...values].join('\n')
+}
+
+/** Reutiliza la petición en curso o la respuesta cacheada; si no, lanza `run`. */
+function sharedGet<T>(
+  http: HttpContext,
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  options: { cacheAs?: FetchApiOptions['cacheAs']; fresh: boolean; signal?: AbortSignal | null },
+): Promise<T> {
+  const { cacheAs, fresh, signal } = options
+  let entry = http.gets.get(key)
+  if (entry?.settled && (fresh || entry.expiresAt <= Date.now())) {
+    http.gets.delete(key)
+    entry = undefined
+  }
+
+  if (!entry) {
+    const controller = new AbortController()
+    const created: SharedGet = {
+      promise: run(controller.signal),
+      controller,
+      waiting: 0,
+      settled: false,
+      expiresAt: 0,
+      resource: cacheAs?.resource,
+    }
+    created.promise.then(
+      () => {
+        created.settled = true
+        created.expiresAt = Date.now() + (cacheAs?.ttlMs ?? 0)
+        if (!cacheAs && http.gets.get(key) === created) http.gets.delete(key)
+      },
+      () => { if (http.gets.get(key) === created) http.gets.delete(key) },
+    )
+    http.gets.set(key, created)
+    entry = created
+  } else {
+    // Solo la URL: las cabeceras pueden llevar credenciales
+    console.debug('[API] fetch compartido:', key.split('\n', 1)[0], entry.settled ? '(caché)' : '(en curso)')
+  }
+
+  const shared = entry
+  if (!signal) {
+    shared.waiting++
+    return shared.promise as Promise<T>
+  }
+  if (signal.aborted) return Promise.reject(abortError())
+
+  shared.waiting++
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(abortError())
+      shared.waiting--
+      // Nadie más espera esta respuesta: se cancela la petición. Se espera un
+      // tick porque StrictMode desmonta y vuelve a montar en el mismo ciclo y
+      // la segunda llamada debe reaprovechar la petición en curso.
+      setTimeout(() => {
+        if (shared.waiting > 0 || shared.settled) return
+        shared.controller.abort()
+        if (http.gets.get(key) === shared) http.gets.delete(key)
+      }, 0)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    shared.promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value as T) },
+      err => { signal.removeEventListener('abort', onAbort); reject(err) },
+    )
+  })
+}
+
+/** Descarta las respuestas cacheadas de esos recursos (todas si no se indica ninguno). */
+function invalidateCache(http: HttpContext, resources: CacheResource[]) {
+  for (const [key, entry] of http.gets) {
+    if (resources.length === 0 || (entry.resource && resources.includes(entry.resource))) {
+      http.gets.delete(key)
+    }
+  }
+}
+
+// ─── Idempotencia ─────────────────────────────────────────────────────
+
+/** FNV-1a de 32 bits; suficiente para acortar una lista de IDs en una clave. */
+function hashString(input: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(36)
+}
+
+/**
+ * Clave de idempotencia de un trastero dentro de una sesión del wizard.
+ * Repetir la confirmación con la misma clave no crea un segundo contrato.
+ */
+export function unitIdempotencyKey(sessionId: string, storageUnitId: string): string {
+  return `${sessionId}:${storageUnitId}`
+}
+
+/** Clave para un lote: depende de la sesión y del conjunto exacto de trasteros. */
+export function batchIdempotencyKey(sessionId: string, storageUnitIds: string[]): string {
+  return `${sessionId}:batch-${hashString([...storageUnitIds].sort().join(','))}`
+}
+
 // ─── Parseo de dimensions ─────────────────────────────────────────────
 
 function parseDimensionsString(raw: string): number {
@@ -113,8 +392,8 @@ function getDimensionsLabel(raw: RawStorageUnit): string {
   return `${computeDimensions(raw)} m²`
 }
 
-function enrichUnit(raw: RawStorageUnit): StorageUnit {
-  return {
+function enrichUnit(raw: RawStorageUnit, floor?: ValidatedFloor): StorageUnit {
+  const unit: StorageUnit = {
     id: raw.id,
     number: raw.number,
     shapeId: raw.shapeId,
@@ -123,170 +402,443 @@ function enrichUnit(raw: RawStorageUnit): StorageUnit {
     price: raw.price,
     dimensions: computeDimensions(raw),
     dimensionsLabel: getDimensionsLabel(raw),
+    floorId: floor?.id ?? SINGLE_FLOOR_ID,
   }
+  if (floor?.name) unit.floorName = floor.name
+  if (raw.attributes) unit.attributes = raw.attributes
+  return unit
 }
 
 // ─── Endpoints ────────────────────────────────────────────────────────
+// Cada endpoint recibe el HttpContext del cliente que lo invoca; el tenant
+// de los endpoints públicos por slug es el del cliente.
+
+/** En los endpoints públicos por slug, un 404 significa que el tenant no existe. */
+const TENANT_STATUS_CODES: StatusCodeMap = { 404: 'TENANT_NOT_FOUND' }
+
+/** El plan cambia con cada reserva: caché corta, solo para evitar recargas al navegar */
+const PLAN_CACHE_TTL_MS = 10_000
+/** Configuración y extras apenas cambian durante una visita */
+const TENANT_CACHE_TTL_MS = 60_000
+
+/** Payload cuyo `tenantSlug` se completa con el del cliente si no se indica. */
+export type TenantScoped<T extends { tenantSlug: string }> = Omit<T, 'tenantSlug'> & { tenantSlug?: string }
+
+function withTenant<T extends { tenantSlug: string }>(http: HttpContext, payload: TenantScoped<T>): T {
+  return { ...payload, tenantSlug: payload.tenantSlug ?? http.tenantSlug } as T
+}
+
+function tenantPath(http: HttpContext): string {
+  return encodeURIComponent(http.tenantSlug)
+}
 
 export interface EnrichedPlanData {
+  /** SVG de la primera planta (compatibilidad con vistas de una sola planta) */
   svgUrl: string
+  /** Trasteros de todas las plantas; cada uno con su `floorId` */
   storageUnits: StorageUnit[]
+  /** Siempre al menos una */
+  floors: PlanFloor[]
 }
 
-interface GetPlanOptions {
+export interface GetPlanOptions extends RequestOptions {
   requireSvgUrl?: boolean
+  /** Ignora la caché (polling, alternativas tras un fallo) */
+  fresh?: boolean
 }
 
-export async function getPlan(
-  tenantSlug: string,
+async function getPlan(
+  http: HttpContext,
   options?: GetPlanOptions
 ): Promise<EnrichedPlanData> {
-  if (!tenantSlug || typeof tenantSlug !== 'string') {
-    throw new Error('tenantSlug es obligatorio para cargar el plan')
-  }
   const requireSvgUrl = options?.requireSvgUrl ?? true
 
-  const data = await fetchApi<PlanResponse>(
-    `/api/public/plan/${encodeURIComponent(tenantSlug)}`
+  const raw = await fetchApi<unknown>(http,
+    `/api/public/plan/${tenantPath(http)}`,
+    {
+      statusCodes: TENANT_STATUS_CODES,
+      cacheAs: { resource: 'plan', ttlMs: PLAN_CACHE_TTL_MS },
+      fresh: options?.fresh,
+      signal: options?.signal,
+    }
   )
+  const data = validatePlanResponse(raw, { requireSvgUrl })
 
-  if (requireSvgUrl && (!data.svgUrl || typeof data.svgUrl !== 'string')) {
-    throw new Error(`El backend no devolvió una URL de plano válida. svgUrl: ${JSON.stringify(data.svgUrl)}`)
-  }
-  if (!Array.isArray(data.storageUnits)) {
-    throw new Error('El backend no devolvió un array de trasteros')
+  return {
+    svgUrl: data.floors[0].svgUrl,
+    storageUnits: data.floors.flatMap(floor => floor.storageUnits.map(u => enrichUnit(u, floor))),
+    floors: data.floors.map(({ id, name, svgUrl }) => ({ id, name, svgUrl })),
   }
-
-  const enriched = data.storageUnits.map(enrichUnit)
-  return { svgUrl: typeof data.svgUrl === 'string' ? data.svgUrl : '', storageUnits: enriched }
 }
 
 /** Carga la configuración del tenant para el wizard de reservas. */
-export async function getTenantSettings(tenantSlug: string): Promise<TenantSettings> {
-  return fetchApi<TenantSettings>(
-    `/api/public/reservations/settings/${encodeURIComponent(tenantSlug)}`
+async function getTenantSettings(http: HttpContext, options?: RequestOptions): Promise<TenantSettings> {
+  const raw = await fetchApi<unknown>(http,
+    `/api/public/reservations/settings/${tenantPath(http)}`,
+    {
+      statusCodes: TENANT_STATUS_CODES,
+      cacheAs: { resource: 'settings', ttlMs: TENANT_CACHE_TTL_MS },
+      signal: options?.signal,
+    }
   )
+  return validateTenantSettings(raw)
 }
 
 /** Carga los extras configurables del tenant para mostrar en el wizard. */
-export async function getTenantExtras(tenantSlug: string): Promise<TenantExtrasResponse> {
-  return fetchApi<TenantExtrasResponse>(
-    `/api/public/reservations/extras/${encodeURIComponent(tenantSlug)}`
+async function getTenantExtras(http: HttpContext, options?: RequestOptions): Promise<TenantExtrasResponse> {
+  const raw = await fetchApi<unknown>(http,
+    `/api/public/reservations/extras/${tenantPath(http)}`,
+    {
+      statusCodes: TENANT_STATUS_CODES,
+      cacheAs: { resource: 'extras', ttlMs: TENANT_CACHE_TTL_MS },
+      signal: options?.signal,
+    }
   )
+  return validateTenantExtras(raw)
 }
 
 /** Crea un lead (PotentialClient) cuando el cliente rellena sus datos. */
-export async function createLead(
-  payload: CreateLeadPayload
+async function createLead(
+  http: HttpContext,
+  payload: TenantScoped<CreateLeadPayload>,
+  options?: RequestOptions
 ): Promise<CreateLeadResponse> {
-  return fetchApi<CreateLeadResponse>('/api/public/reservations/leads', {
+  return fetchApi<CreateLeadResponse>(http, '/api/public/reservations/leads', {
     method: 'POST',
-    body: JSON.stringify(payload),
+    body: JSON.stringify(withTenant(http, payload)),
+    statusCodes: TENANT_STATUS_CODES,
+    signal: options?.signal,
   })
 }
 
 /** Marca un lead como abandonado en el paso indicado. */
-export async function abandonLead(
+async function abandonLead(
+  http: HttpContext,
   leadId: string,
-  tenantSlug: string,
   abandonedStep: string
 ): Promise<void> {
   try {
-    await fetchApi(`/api/public/reservations/leads/${encodeURIComponent(leadId)}/abandon`, {
+    await fetchApi(http, `/api/public/reservations/leads/${encodeURIComponent(leadId)}/abandon`, {
       method: 'PATCH',
-      body: JSON.stringify({ tenantSlug, abandonedStep }),
+      body: JSON.stringify({ tenantSlug: http.tenantSlug, abandonedStep }),
     })
   } catch (err) {
     console.warn('[API] No se pudo marcar el lead como abandonado:', err)
   }
 }
 
+// ── Bloqueo temporal de trasteros ─────────────────────────────────────
+
+/**
+ * Bloquea los trasteros seleccionados durante `durationMinutes`.
+ * Un 409 indica que alguno ya no está disponible (`failedUnits` en el error).
+ */
+async function createHold(
+  http: HttpContext,
+  payload: TenantScoped<CreateHoldPayload>,
+  options?: RequestOptions
+): Promise<UnitHold> {
+  const raw = await fetchApi<unknown>(http, '/api/public/reservations/holds', {
+    method: 'POST',
+    body: JSON.stringify(withTenant(http, payload)),
+    statusCodes: { 409: 'UNIT_NOT_AVAILABLE' },
+    signal: options?.signal,
+  })
+  const hold = validateUnitHold(raw)
+  return hold.storageUnitIds.length > 0 ? hold : { ...hold, storageUnitIds: payload.storageUnitIds }
+}
+
+/**
+ * Renueva el bloqueo. Con `storageUnitIds` sustituye además el conjunto de
+ * trasteros bloqueados (los que salen quedan liberados).
+ */
+async function renewHold(
+  http: HttpContext,
+  holdId: string,
+  storageUnitIds?: string[],
+  options?: RequestOptions
+): Promise<UnitHold> {
+  const raw = await fetchApi<unknown>(http, `/api/public/reservations/holds/${encodeURIComponent(holdId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(storageUnitIds ? { storageUnitIds } : {}),
+    statusCodes: { 404: 'NOT_FOUND', 409: 'UNIT_NOT_AVAILABLE' },
+    signal: options?.signal,
+  })
+  const hold = validateUnitHold(raw)
+  return hold.storageUnitIds.length > 0 || !storageUnitIds ? hold : { ...hold, storageUnitIds }
+}
+
+/**
+ * Libera el bloqueo (best-effort). `keepalive` permite enviarlo mientras
+ * la página se cierra.
+ */
+async function releaseHold(http: HttpContext, holdId: string, options?: { keepalive?: boolean }): Promise<void> {
+  try {
+    await fetchApi(http, `/api/public/reservations/holds/${encodeURIComponent(holdId)}`, {
+      method: 'DELETE',
+      keepalive: options?.keepalive,
+      retry: false,
+    })
+  } catch (err) {
+    console.warn('[API] No se pudo liberar el bloqueo:', err)
+  }
+}
+
 /**
  * Confirma la reserva completa tras firma y selección de pago.
  * Crea el Cliente + Contrato, pone el trastero OCCUPIED.
+ * Un 409 indica que el trastero ya no está disponible (UNIT_NOT_AVAILABLE).
+ * Tras la llamada el plan cacheado deja de ser válido.
  */
-export async function confirmFullReservation(
-  payload: ConfirmFullReservationPayload
+async function confirmFullReservation(
+  http: HttpContext,
+  payload: TenantScoped<ConfirmFullReservationPayload>,
+  idempotencyKey?: string,
+  options?: RequestOptions
 ): Promise<ConfirmFullReservationResponse> {
-  return fetchApi<ConfirmFullReservationResponse>('/api/public/reservations/confirm-full', {
-    method: 'POST',
-    body: JSON.stringify(payload),
-  })
+  try {
+    const raw = await fetchApi<unknown>(http, '/api/public/reservations/confirm-full', {
+      method: 'POST',
+      headers: idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined,
+      body: JSON.stringify(withTenant(http, payload)),
+      statusCodes: { 409: 'UNIT_NOT_AVAILABLE' },
+      signal: options?.signal,
+    })
+    return validateConfirmFullReservationResponse(raw)
+  } finally {
+    invalidateCache(http, ['plan'])
+  }
 }
 
-/** Sube la foto del DNI. Devuelve la ruta pública del archivo. */
-export async function uploadDniPhoto(
+/**
+ * Confirma todos los trasteros seleccionados de una vez. La operación es
+ * atómica: si alguno falla no se reserva ninguno y el ApiError trae
+ * `failedUnits` con el motivo de cada trastero rechazado.
+ * Una respuesta con `success: false` o sin un contrato por cada trastero
+ * enviado también es un fallo: nunca se da por confirmada a medias.
+ * Con `sessionId` cada trastero lleva su clave de idempotencia y el lote se
+ * reintenta automáticamente ante fallos de red o 5xx.
+ * Tanto si se confirma como si no, el plan cacheado deja de ser válido.
+ */
+async function confirmReservationBatch(
+  http: HttpContext,
+  payload: TenantScoped<ConfirmReservationBatchPayload>,
+  sessionId?: string,
+  options?: RequestOptions
+): Promise<ConfirmReservationBatchResponse> {
+  const scoped = withTenant<ConfirmReservationBatchPayload>(http, payload)
+  const body: ConfirmReservationBatchPayload = sessionId
+    ? {
+        ...scoped,
+        units: scoped.units.map(u => ({
+          ...u,
+          idempotencyKey: unitIdempotencyKey(sessionId, u.storageUnitId),
+        })),
+      }
+    : scoped
+  const headers = sessionId
+    ? { [IDEMPOTENCY_HEADER]: batchIdempotencyKey(sessionId, scoped.units.map(u => u.storageUnitId)) }
+    : undefined
+
+  try {
+    const raw = await fetchApi<unknown>(http, '/api/public/reservations/confirm-batch', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      statusCodes: { 409: 'UNIT_NOT_AVAILABLE' },
+      signal: options?.signal,
+    })
+    const res = validateConfirmReservationBatchResponse(raw)
+    assertBatchConfirmed(res, scoped.units.map(u => u.storageUnitId))
+    return res
+  } finally {
+    invalidateCache(http, ['plan'])
+  }
+}
+
+/** Lanza ApiError si el lote no viene confirmado entero, un contrato por trastero */
+function assertBatchConfirmed(res: ConfirmReservationBatchResponse, unitIds: string[]): void {
+  if (!res.success) {
+    throw new ApiError(res.message || 'No se pudo confirmar la reserva. Inténtalo de nuevo.', { code: 'UNKNOWN' })
+  }
+  const contracted = new Set(res.contracts.map(c => c.storageUnitId))
+  const matches = contracted.size === res.contracts.length
+    && contracted.size === unitIds.length
+    && unitIds.every(id => contracted.has(id))
+  if (!matches) {
+    console.error('[API] Contratos del lote:', [...contracted], 'trasteros enviados:', unitIds)
+    throw new ApiError('El servidor no devolvió un contrato por cada trastero.', { code: 'INVALID_RESPONSE' })
+  }
+}
+
+/**
+ * Sube la foto del DNI. Devuelve la ruta pública del archivo.
+ * Repetir la subida solo genera otro archivo temporal, así que se reintenta
+ * igual que una petición idempotente.
+ */
+async function uploadDniPhoto(
+  http: HttpContext,
   file: File,
-  tenantSlug: string
+  options?: RequestOptions
 ): Promise<UploadDniPhotoResponse> {
   const formData = new FormData()
   formData.append('file', file)
-  formData.append('tenantSlug', tenantSlug)
+  formData.append('tenantSlug', http.tenantSlug)
 
-  const fullUrl = `${API_BASE}/api/public/uploads/dni`
-  const res = await fetch(fullUrl, {
+  return fetchApi<UploadDniPhotoResponse>(http, '/api/public/uploads/dni', {
     method: 'POST',
-    cache: 'no-store',
-    headers: NO_CACHE_HEADERS,
     body: formData,
+    retry: DEFAULT_RETRY,
+    statusCodes: { 413: 'VALIDATION', 415: 'VALIDATION' },
+    networkErrorMessage: 'No se pudo conectar con el servidor para subir la foto.',
+    signal: options?.signal,
   })
-
-  if (!res.ok) {
-    const text = await res.text()
-    let message = `Error ${res.status}`
-    try {
-      const json = JSON.parse(text)
-      if (json.message) message = Array.isArray(json.message) ? json.message.join(', ') : json.message
-    } catch { /* */ }
-    throw new Error(message)
-  }
-
-  return res.json() as Promise<UploadDniPhotoResponse>
 }
 
 // ── Funciones legacy (se mantienen por compatibilidad) ────────────────
 
-export async function createReservation(
-  payload: ReservationPayload
+async function createReservation(
+  http: HttpContext,
+  payload: TenantScoped<ReservationPayload>
 ): Promise<ReservationSuccess> {
-  return fetchApi<ReservationSuccess>('/api/public/reservations', {
+  return fetchApi<ReservationSuccess>(http, '/api/public/reservations', {
     method: 'POST',
-    body: JSON.stringify(payload),
+    body: JSON.stringify(withTenant(http, payload)),
   })
 }
 
-export async function createFullReservation(
+async function createFullReservation(
+  http: HttpContext,
   tenantId: string,
   payload: FullReservationPayload
 ): Promise<{ id?: string; message?: string }> {
-  return fetchApi('/api/public/reservations', {
+  return fetchApi(http, '/api/public/reservations', {
     method: 'POST',
     headers: { 'x-tenant-id': tenantId },
     body: JSON.stringify(payload),
   })
 }
 
-export async function getAvailableUnits(
+async function getAvailableUnits(
+  http: HttpContext,
   tenantId: string,
-  filters?: { squareMeters?: number; maxMonthlyPrice?: number }
+  filters?: { squareMeters?: number; maxMonthlyPrice?: number },
+  options?: RequestOptions
 ): Promise<StorageUnit[]> {
   const params = new URLSearchParams()
   if (filters?.squareMeters != null) params.set('squareMeters', String(filters.squareMeters))
   if (filters?.maxMonthlyPrice != null) params.set('maxMonthlyPrice', String(filters.maxMonthlyPrice))
   const qs = params.toString()
-  const data = await fetchApi<RawStorageUnit[]>(
+  const data = await fetchApi<unknown>(http,
     `/api/storage-units/available${qs ? `?${qs}` : ''}`,
-    { headers: { 'x-tenant-id': tenantId } }
+    { headers: { 'x-tenant-id': tenantId }, signal: options?.signal }
   )
-  return Array.isArray(data) ? data.map(enrichUnit) : []
+  return validateStorageUnitList(data).map(u => enrichUnit(u))
 }
 
-export function getSvgFullUrl(svgUrl: string): string {
+function getSvgFullUrl(http: HttpContext, svgUrl: string): string {
   if (!svgUrl || typeof svgUrl !== 'string') {
-    throw new Error('La URL del plano SVG no es válida')
+    throw new ApiError('La URL del plano SVG no es válida', { code: 'INVALID_RESPONSE' })
   }
-  if (svgUrl.startsWith('http')) return svgUrl
+  // data: lo usan los planos generados en el navegador (fixture de rendimiento del modo demo)
+  if (svgUrl.startsWith('http') || svgUrl.startsWith('data:')) return svgUrl
   const path = svgUrl.startsWith('/') ? svgUrl : `/${svgUrl}`
   if (!path.startsWith('/planos/')) return path
-  return API_BASE ? `${API_BASE}${path}` : path
+  return http.baseUrl ? `${http.baseUrl}${path}` : path
+}
+
+// ─── Cliente ──────────────────────────────────────────────────────────
+
+export interface ApiClientConfig {
+  /** Base del backend (sin barra final). Vacío → rutas relativas (proxy de Vite) */
+  baseUrl?: string
+  /** Tenant de los endpoints públicos por slug */
+  tenantSlug: string
+  /** Cabeceras extra en cada petición; como función se evalúa en cada una (tokens que caducan) */
+  headers?: Record<string, string> | (() => Record<string, string>)
+  /** Implementación de fetch; por defecto la del navegador */
+  fetch?: typeof fetch
+}
+
+export interface ApiClient {
+  readonly baseUrl: string
+  readonly tenantSlug: string
+
+  getPlan(options?: GetPlanOptions): Promise<EnrichedPlanData>
+  getTenantSettings(options?: RequestOptions): Promise<TenantSettings>
+  getTenantExtras(options?: RequestOptions): Promise<TenantExtrasResponse>
+  createLead(payload: TenantScoped<CreateLeadPayload>, options?: RequestOptions): Promise<CreateLeadResponse>
+  abandonLead(leadId: string, abandonedStep: string): Promise<void>
+
+  createHold(payload: TenantScoped<CreateHoldPayload>, options?: RequestOptions): Promise<UnitHold>
+  renewHold(holdId: string, storageUnitIds?: string[], options?: RequestOptions): Promise<UnitHold>
+  releaseHold(holdId: string, options?: { keepalive?: boolean }): Promise<void>
+
+  confirmFullReservation(
+    payload: TenantScoped<ConfirmFullReservationPayload>,
+    idempotencyKey?: string,
+    options?: RequestOptions,
+  ): Promise<ConfirmFullReservationResponse>
+  confirmReservationBatch(
+    payload: TenantScoped<ConfirmReservationBatchPayload>,
+    sessionId?: string,
+    options?: RequestOptions,
+  ): Promise<ConfirmReservationBatchResponse>
+  uploadDniPhoto(file: File, options?: RequestOptions): Promise<UploadDniPhotoResponse>
+
+  createReservation(payload: TenantScoped<ReservationPayload>): Promise<ReservationSuccess>
+  createFullReservation(tenantId: string, payload: FullReservationPayload): Promise<{ id?: string; message?: string }>
+  getAvailableUnits(
+    tenantId: string,
+    filters?: { squareMeters?: number; maxMonthlyPrice?: number },
+    options?: RequestOptions,
+  ): Promise<StorageUnit[]>
+
+  /** Resuelve la URL del SVG del plano contra la base del backend */
+  getSvgFullUrl(svgUrl: string): string
+  /** Descarta plan, configuración o extras cacheados (todo si no se indica) */
+  invalidateCache(...resources: CacheResource[]): void
+}
+
+/**
+ * Crea un cliente de la API ligado a un backend y un tenant. Varias
+ * instancias pueden convivir en la misma página (p. ej. dos wizards) y en
+ * tests se puede pasar un `fetch` falso.
+ */
+export function createApiClient(config: ApiClientConfig): ApiClient {
+  if (!config.tenantSlug || typeof config.tenantSlug !== 'string') {
+    throw new ApiError('tenantSlug es obligatorio para crear el cliente de la API', { code: 'VALIDATION' })
+  }
+  const { headers } = config
+  const http: HttpContext = {
+    baseUrl: (config.baseUrl ?? '').replace(/\/$/, ''),
+    tenantSlug: config.tenantSlug,
+    headers: typeof headers === 'function' ? headers : () => headers ?? {},
+    // Envuelto: window.fetch lanza "Illegal invocation" si se invoca como método de otro objeto
+    fetch: config.fetch ?? ((input, init) => fetch(input, init)),
+    gets: new Map(),
+  }
+
+  return {
+    baseUrl: http.baseUrl,
+    tenantSlug: http.tenantSlug,
+    getPlan: options => getPlan(http, options),
+    getTenantSettings: options => getTenantSettings(http, options),
+    getTenantExtras: options => getTenantExtras(http, options),
+    createLead: (payload, options) => createLead(http, payload, options),
+    abandonLead: (leadId, abandonedStep) => abandonLead(http, leadId, abandonedStep),
+    createHold: (payload, options) => createHold(http, payload, options),
+    renewHold: (holdId, storageUnitIds, options) => renewHold(http, holdId, storageUnitIds, options),
+    releaseHold: (holdId, options) => releaseHold(http, holdId, options),
+    confirmFullReservation: (payload, idempotencyKey, options) =>
+      confirmFullReservation(http, payload, idempotencyKey, options),
+    confirmReservationBatch: (payload, sessionId, options) =>
+      confirmReservationBatch(http, payload, sessionId, options),
+    uploadDniPhoto: (file, options) => uploadDniPhoto(http, file, options),
+    createReservation: payload => createReservation(http, payload),
+    createFullReservation: (tenantId, payload) => createFullReservation(http, tenantId, payload),
+    getAvailableUnits: (tenantId, filters, options) => getAvailableUnits(http, tenantId, filters, options),
+    getSvgFullUrl: svgUrl => getSvgFullUrl(http, svgUrl),
+    invalidateCache: (...resources) => invalidateCache(http, resources),
+  }
 }
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react'
+import type { ApiClient } from './api'
+
+/**
+ * Cliente de la API inyectado en el árbol. `WizardProvider` lo provee si
+ * recibe `client`; la app lo crea en `App.tsx` a partir de la configuración.
+ */
+export const ApiClientContext = createContext<ApiClient | null>(null)
+
+export function useApiClient(): ApiClient {
+  const client = useContext(ApiClientContext)
+  if (!client) throw new Error('useApiClient must be used inside ApiClientContext.Provider')
+  return client
+}
@@ -0,0 +1,204 @@
+// ─── Códigos de error ─────────────────────────────────────────────────
+
+/**
+ * Código máquina de un fallo de la API. Lo envía el backend en `code`
+ * o se deduce del status HTTP (ver `resolveErrorCode`).
+ */
+export type ApiErrorCode =
+  | 'NETWORK'
+  | 'VALIDATION'
+  | 'UNIT_NOT_AVAILABLE'
+  | 'TENANT_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'SERVER'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN'
+
+/** Errores de validación por campo: `{ email: 'Email no válido' }` */
+export type ApiFieldErrors = Record<string, string>
+
+/** Trastero concreto que el backend rechazó dentro de una operación por lotes */
+export interface ApiUnitFailure {
+  storageUnitId: string
+  code: ApiErrorCode
+  message: string
+}
+
+/** Permite a cada endpoint reinterpretar un status (p. ej. 404 → TENANT_NOT_FOUND). */
+export type StatusCodeMap = Partial<Record<number, ApiErrorCode>>
+
+const KNOWN_CODES: readonly ApiErrorCode[] = [
+  'NETWORK',
+  'VALIDATION',
+  'UNIT_NOT_AVAILABLE',
+  'TENANT_NOT_FOUND',
+  'NOT_FOUND',
+  'CONFLICT',
+  'SERVER',
+  'INVALID_RESPONSE',
+  'UNKNOWN',
+]
+
+// ─── Clase de error ───────────────────────────────────────────────────
+
+export class ApiError extends Error {
+  /** Status HTTP; 0 si la petición no llegó al servidor */
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly fieldErrors: ApiFieldErrors
+  readonly failedUnits: ApiUnitFailure[]
+
+  constructor(
+    message: string,
+    params: {
+      status?: number
+      code: ApiErrorCode
+      fieldErrors?: ApiFieldErrors
+      failedUnits?: ApiUnitFailure[]
+    },
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = params.status ?? 0
+    this.code = params.code
+    this.fieldErrors = params.fieldErrors ?? {}
+    this.failedUnits = params.failedUnits ?? []
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError
+}
+
+// ─── Construcción desde una respuesta HTTP ────────────────────────────
+
+function isKnownCode(code: unknown): code is ApiErrorCode {
+  return typeof code === 'string' && (KNOWN_CODES as readonly string[]).includes(code)
+}
+
+function resolveErrorCode(
+  status: number,
+  bodyCode: unknown,
+  statusCodes?: StatusCodeMap,
+): ApiErrorCode {
+  if (isKnownCode(bodyCode)) return bodyCode
+  const override = statusCodes?.[status]
+  if (override) return override
+  if (status === 400 || status === 422) return 'VALIDATION'
+  if (status === 404) return 'NOT_FOUND'
+  if (status === 409) return 'CONFLICT'
+  if (status >= 500) return 'SERVER'
+  return 'UNKNOWN'
+}
+
+/**
+ * Extrae los errores por campo. Acepta:
+ *  - `fieldErrors: { email: '...' }`
+ *  - `errors: [{ field: 'email', message: '...' }]`
+ *  - `message: ['email must be an email', ...]` (ValidationPipe de NestJS)
+ */
+function parseFieldErrors(json: Record<string, unknown>): ApiFieldErrors {
+  const out: ApiFieldErrors = {}
+
+  if (json.fieldErrors && typeof json.fieldErrors === 'object' && !Array.isArray(json.fieldErrors)) {
+    for (const [field, msg] of Object.entries(json.fieldErrors as Record<string, unknown>)) {
+      if (typeof msg === 'string') out[field] = msg
+      else if (Array.isArray(msg) && typeof msg[0] === 'string') out[field] = msg[0]
+    }
+  }
+
+  if (Array.isArray(json.errors)) {
+    for (const item of json.errors) {
+      if (!item || typeof item !== 'object') continue
+      const { field, property, message } = item as Record<string, unknown>
+      const key = typeof field === 'string' ? field : typeof property === 'string' ? property : null
+      if (key && typeof message === 'string' && !out[key]) out[key] = message
+    }
+  }
+
+  if (Array.isArray(json.message)) {
+    for (const msg of json.message) {
+      if (typeof msg !== 'string') continue
+      const match = msg.match(/^([a-zA-Z][a-zA-Z0-9]*)\s/)
+      if (match && !out[match[1]]) out[match[1]] = msg
+    }
+  }
+
+  return out
+}
+
+/** Extrae `failedUnits: [{ storageUnitId, code, message }]` de una respuesta por lotes. */
+export function parseUnitFailures(raw: unknown, fallbackCode: ApiErrorCode = 'UNKNOWN'): ApiUnitFailure[] {
+  if (!Array.isArray(raw)) return []
+  const out: ApiUnitFailure[] = []
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue
+    const { storageUnitId, code, message, reason } = item as Record<string, unknown>
+    if (typeof storageUnitId !== 'string') continue
+    out.push({
+      storageUnitId,
+      code: isKnownCode(code) ? code : fallbackCode,
+      message: typeof message === 'string' ? message : typeof reason === 'string' ? reason : '',
+    })
+  }
+  return out
+}
+
+/** Construye un ApiError a partir de una respuesta no-OK. Consume el body. */
+export async function apiErrorFromResponse(
+  res: Response,
+  statusCodes?: StatusCodeMap,
+): Promise<ApiError> {
+  const text = await res.text().catch(() => '')
+  let message = `Error ${res.status}`
+  let bodyCode: unknown
+  let fieldErrors: ApiFieldErrors = {}
+  let rawFailedUnits: unknown
+  try {
+    const json = JSON.parse(text)
+    if (json && typeof json === 'object') {
+      if (json.message) message = Array.isArray(json.message) ? json.message.join(', ') : String(json.message)
+      else if (json.error) message = String(json.error)
+      bodyCode = json.code
+      fieldErrors = parseFieldErrors(json)
+      rawFailedUnits = json.failedUnits
+    }
+  } catch {
+    if (text) message = text
+  }
+  const code = resolveErrorCode(res.status, bodyCode, statusCodes)
+  return new ApiError(message, {
+    status: res.status,
+    code,
+    fieldErrors,
+    failedUnits: parseUnitFailures(rawFailedUnits, code),
+  })
+}
+
+// ─── Mensajes para el cliente ─────────────────────────────────────────
+
+const MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  NETWORK:            'No se pudo conectar con el servidor. Comprueba tu conexión e inténtalo de nuevo.',
+  UNIT_NOT_AVAILABLE: 'El trastero seleccionado ya no está disponible. Puede que otra persona lo acabe de reservar.',
+  TENANT_NOT_FOUND:   'No encontramos este centro de trasteros. Revisa el enlace que has utilizado.',
+  SERVER:             'El servidor ha tenido un problema. Inténtalo de nuevo en unos minutos.',
+  INVALID_RESPONSE:   'El servidor devolvió una respuesta inesperada. Recarga la página e inténtalo de nuevo.',
+}
+
+/**
+ * Mensaje legible para mostrar al cliente. Los errores de validación
+ * conservan el texto del backend, que describe el campo concreto.
+ */
+export function getApiErrorMessage(err: unknown, fallback = 'Ha ocurrido un error inesperado'): string {
+  if (isApiError(err)) {
+    if (err.code === 'VALIDATION') return err.message || 'Algunos datos no son válidos. Revísalos e inténtalo de nuevo.'
+    return MESSAGES[err.code] ?? (err.message || fallback)
+  }
+  if (err instanceof Error && err.message) return err.message
+  return fallback
+}
@@ -0,0 +1,240 @@
+// ─── Validación plano ↔ inventario ───────────────────────────────────
+//
+// Comprueba que cada trastero del inventario tiene su forma en el SVG del
+// plano y al revés. Se usa desde el script `npm run validate-plan` al dar de
+// alta un centro y desde la app con `?debug=plan`. No depende del DOM: el SVG
+// se recorre como texto para que funcione igual en Node.
+
+/** Elemento del SVG con `id` */
+export interface PlanShape {
+  id: string
+  tag: string
+  /** Encierra un área: rect, circle, polygon, path terminado en Z… */
+  closed: boolean
+}
+
+/** Lo que el validador necesita de cada trastero */
+export interface PlanUnitRef {
+  id: string
+  number?: number | string
+  shapeId: string
+}
+
+export interface PlanValidationReport {
+  /** Sin trasteros sin forma, shapeIds duplicados ni coincidencias ambiguas */
+  ok: boolean
+  summary: {
+    units: number
+    shapes: number
+    matched: number
+    unmatchedUnits: number
+    orphanShapes: number
+    ambiguousMatches: number
+    duplicateShapeIds: number
+    duplicateSvgIds: number
+    openShapes: number
+  }
+  /** Trasteros sin forma en el plano, con las variantes de id probadas */
+  unmatchedUnits: { unitId: string; number?: number | string; shapeId: string; tried: string[] }[]
+  /** Formas con pinta de trastero (T12, A-03…) que ningún trastero usa */
+  orphanShapes: { shapeId: string; tag: string }[]
+  /** Hay más de una variante en el plano (T1 y T01): se usa la primera */
+  ambiguousMatches: { unitId: string; shapeId: string; used: string; candidates: string[] }[]
+  /** Varios trasteros acaban en la misma forma */
+  duplicateShapeIds: { shapeId: string; unitIds: string[] }[]
+  /** Ids repetidos dentro del propio SVG */
+  duplicateSvgIds: string[]
+  /** Trasteros cuya forma no encierra un área (línea, path abierto, texto) */
+  openShapes: { unitId: string; shapeId: string; tag: string }[]
+}
+
+// ─── Variantes de id ──────────────────────────────────────────────────
+
+/**
+ * Ids con los que se busca la forma de un trastero, en orden de preferencia:
+ * tal cual, en mayúsculas y con el número sin ceros, a 2 y a 3 cifras
+ * (T1 / T01 / T001).
+ */
+export function getShapeIdVariants(shapeId: string): string[] {
+  const raw = shapeId.trim()
+  if (!raw) return []
+  const variants = new Set<string>()
+  variants.add(raw)
+  variants.add(raw.toUpperCase())
+  const match = raw.match(/^([a-zA-Z]+)\s*0*(\d+)$/)
+  if (match) {
+    const prefix = match[1].toUpperCase()
+    const n = Number(match[2])
+    if (Number.isFinite(n)) {
+      variants.add(`${prefix}${n}`)
+      variants.add(`${prefix}${String(n).padStart(2, '0')}`)
+      variants.add(`${prefix}${String(n).padStart(3, '0')}`)
+    }
+  }
+  return [...variants]
+}
+
+/** Ids que parecen de trastero aunque nadie los use: letras + número (T12, A-03, B 7) */
+const UNIT_LIKE_ID = /^([a-zA-Z]+)[\s_-]?\d+$/
+
+/** Solo se buscan huérfanos entre elementos que dibujan algo */
+const DRAWABLE = new Set(['rect', 'circle', 'ellipse', 'polygon', 'polyline', 'path', 'g', 'use'])
+
+/** Forma con pinta de trastero. Los ids automáticos de los editores (rect12, path5, g3) no cuentan */
+function looksLikeUnit(shape: PlanShape): boolean {
+  const match = shape.id.match(UNIT_LIKE_ID)
+  return !!match && DRAWABLE.has(shape.tag) && match[1].toLowerCase() !== shape.tag
+}
+
+// ─── Lectura del SVG ──────────────────────────────────────────────────
+
+const ALWAYS_CLOSED = new Set(['rect', 'circle', 'ellipse', 'polygon'])
+/** Contenedores: encierran un área si alguna de sus formas lo hace */
+const CONTAINERS = new Set(['g', 'a', 'switch', 'symbol'])
+
+const TAG = /<(\/?)([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/g
+const ATTR = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function readAttributes(source: string): Map<string, string> {
+  const attrs = new Map<string, string>()
+  for (const m of source.matchAll(ATTR)) attrs.set(m[1], m[2] ?? m[3] ?? '')
+  return attrs
+}
+
+/** Un path está cerrado si cada subtrazo (cada M) termina en Z */
+function isClosedPath(d: string): boolean {
+  const subpaths = d.trim().split(/(?=[Mm])/).filter(s => s.trim() !== '')
+  return subpaths.length > 0 && subpaths.every(s => /[Zz]\s*$/.test(s))
+}
+
+/** Elemento del SVG leído como texto, con su padre (-1 en la raíz) */
+export interface SvgElementNode {
+  tag: string
+  attrs: Map<string, string>
+  parent: number
+}
+
+/**
+ * Elementos de un SVG en orden de documento, sin comentarios, CDATA ni
+ * doctype. Lanza un Error si el texto no contiene un elemento `<svg>`.
+ */
+export function readSvgElements(svgText: string): SvgElementNode[] {
+  const text = svgText
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+
+  const elements: SvgElementNode[] = []
+  const stack: number[] = []
+  let sawSvg = false
+
+  for (const m of text.matchAll(TAG)) {
+    const [, closing, rawTag, attrSource, selfClosing] = m
+    const tag = rawTag.replace(/^svg:/, '')
+    if (closing) {
+      // Cierra hasta el último abierto con ese nombre (tolera SVG algo sucios)
+      let at = stack.length - 1
+      while (at >= 0 && elements[stack[at]].tag !== tag) at--
+      if (at >= 0) stack.length = at
+      continue
+    }
+    if (tag === 'svg') sawSvg = true
+    elements.push({
+      tag,
+      attrs: readAttributes(attrSource),
+      parent: stack.length > 0 ? stack[stack.length - 1] : -1,
+    })
+    if (!selfClosing) stack.push(elements.length - 1)
+  }
+  if (!sawSvg) throw new Error('El fichero no contiene un elemento <svg>')
+  return elements
+}
+
+/**
+ * Formas con `id` de un SVG. Lanza un Error si el texto no contiene un
+ * elemento `<svg>`.
+ */
+export function parseSvgShapes(svgText: string): PlanShape[] {
+  const elements = readSvgElements(svgText).map(el => ({
+    tag: el.tag,
+    id: el.attrs.get('id')?.trim() || null,
+    closed: ALWAYS_CLOSED.has(el.tag) || el.tag === 'use' || (el.tag === 'path' && isClosedPath(el.attrs.get('d') ?? '')),
+    parent: el.parent,
+  }))
+
+  // Un grupo encierra un área si alguna forma de dentro lo hace
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const el = elements[i]
+    if (el.closed && el.parent >= 0 && CONTAINERS.has(elements[el.parent].tag)) elements[el.parent].closed = true
+  }
+
+  return elements
+    .filter((el): el is typeof el & { id: string } => el.id !== null)
+    .map(el => ({ id: el.id, tag: el.tag, closed: el.closed }))
+}
+
+// ─── Validación ───────────────────────────────────────────────────────
+
+export function validatePlanMapping(shapes: PlanShape[], units: PlanUnitRef[]): PlanValidationReport {
+  const byId = new Map<string, PlanShape>()
+  const duplicateSvgIds = new Set<string>()
+  for (const shape of shapes) {
+    if (byId.has(shape.id)) duplicateSvgIds.add(shape.id)
+    else byId.set(shape.id, shape)
+  }
+
+  const unmatchedUnits: PlanValidationReport['unmatchedUnits'] = []
+  const ambiguousMatches: PlanValidationReport['ambiguousMatches'] = []
+  const openShapes: PlanValidationReport['openShapes'] = []
+  const unitsByShape = new Map<string, string[]>()
+
+  for (const unit of units) {
+    const tried = getShapeIdVariants(unit.shapeId)
+    const candidates = tried.filter(v => byId.has(v))
+    if (candidates.length === 0) {
+      unmatchedUnits.push({ unitId: unit.id, number: unit.number, shapeId: unit.shapeId, tried })
+      continue
+    }
+    const used = candidates[0]
+    if (candidates.length > 1) ambiguousMatches.push({ unitId: unit.id, shapeId: unit.shapeId, used, candidates })
+    unitsByShape.set(used, [...(unitsByShape.get(used) ?? []), unit.id])
+    const shape = byId.get(used)!
+    if (!shape.closed) openShapes.push({ unitId: unit.id, shapeId: used, tag: shape.tag })
+  }
+
+  const duplicateShapeIds = [...unitsByShape]
+    .filter(([, unitIds]) => unitIds.length > 1)
+    .map(([shapeId, unitIds]) => ({ shapeId, unitIds }))
+
+  const orphanShapes = [...byId.values()]
+    .filter(shape => looksLikeUnit(shape) && !unitsByShape.has(shape.id))
+    .map(shape => ({ shapeId: shape.id, tag: shape.tag }))
+
+  const matched = units.length - unmatchedUnits.length
+  return {
+    ok: unmatchedUnits.length === 0 && duplicateShapeIds.length === 0 && ambiguousMatches.length === 0,
+    summary: {
+      units: units.length,
+      shapes: byId.size,
+      matched,
+      unmatchedUnits: unmatchedUnits.length,
+      orphanShapes: orphanShapes.length,
+      ambiguousMatches: ambiguousMatches.length,
+      duplicateShapeIds: duplicateShapeIds.length,
+      duplicateSvgIds: duplicateSvgIds.size,
+      openShapes: openShapes.length,
+    },
+    unmatchedUnits,
+    orphanShapes,
+    ambiguousMatches,
+    duplicateShapeIds,
+    duplicateSvgIds: [...duplicateSvgIds],
+    openShapes,
+  }
+}
+
+/** Atajo: lee el SVG y valida la correspondencia con los trasteros */
+export function validatePlan(svgText: string, units: PlanUnitRef[]): PlanValidationReport {
+  return validatePlanMapping(parseSvgShapes(svgText), units)
+}
@@ -0,0 +1,139 @@
+// ─── Saneado de planos SVG ────────────────────────────────────────────
+//
+// El SVG del plano se inyecta con innerHTML para poder colorear y escuchar
+// cada trastero. Antes se pasa por una lista blanca de elementos y atributos:
+// fuera scripts, manejadores on*, foreignObject y cualquier referencia a
+// recursos externos. Se conservan las imágenes raster embebidas en base64
+// (el fondo que exporta Inkscape). Tampoco pasa <style>: dentro de la página
+// sus reglas afectarían a todo el documento, no solo al plano. Del atributo
+// style solo quedan las propiedades de pintura y texto.
+
+import { isSafeValue, sanitizeInlineStyle } from './svgStyle'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const XLINK_NS = 'http://www.w3.org/1999/xlink'
+
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textPath',
+  'image',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+])
+
+/** Elementos que se quitan pero cuyo contenido se conserva */
+const UNWRAP_ELEMENTS = new Set(['a', 'switch'])
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'version', 'viewBox', 'preserveAspectRatio', 'xmlns', 'xmlns:xlink',
+  'x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r', 'fx', 'fy',
+  'x1', 'y1', 'x2', 'y2', 'dx', 'dy', 'd', 'points', 'transform', 'rotate', 'textLength', 'lengthAdjust',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset',
+  'opacity', 'display', 'visibility', 'color', 'clip-path', 'clip-rule', 'mask', 'filter',
+  'vector-effect', 'paint-order', 'shape-rendering', 'image-rendering', 'text-rendering',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'letter-spacing', 'word-spacing',
+  'text-anchor', 'dominant-baseline', 'alignment-baseline', 'baseline-shift', 'text-decoration',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+  'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'marker-start', 'marker-mid', 'marker-end', 'startOffset', 'method', 'spacing',
+  'href', 'xlink:href',
+])
+
+/** Solo imágenes raster embebidas; nada de data:image/svg+xml ni URLs */
+const EMBEDDED_RASTER = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i
+
+// ─── Helpers ──────────────────────────────────────────────────────────
+
+function isSafeHref(element: Element, value: string): boolean {
+  const href = value.trim()
+  if (element.localName === 'image') return EMBEDDED_RASTER.test(href)
+  return href.startsWith('#')
+}
+
+// ─── Saneado ──────────────────────────────────────────────────────────
+
+export interface SanitizedSvg {
+  /** Marcado listo para inyectar */
+  svg: string
+  /** Lo que se ha quitado, para avisar en consola (`<script>`, `onclick en #T12`…) */
+  removed: string[]
+}
+
+/**
+ * Sanea el texto de un plano SVG. Lanza un Error con mensaje legible si el
+ * contenido no es un SVG bien formado; lo peligroso se quita y se informa en
+ * `removed`.
+ */
+export function sanitizeSvg(text: string): SanitizedSvg {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('El plano no es un SVG bien formado')
+  }
+  if (root.namespaceURI !== SVG_NS || root.localName !== 'svg') {
+    throw new Error('El fichero del plano no contiene un SVG')
+  }
+
+  const removed: string[] = []
+  const describe = (el: Element) => `<${el.tagName}>${el.id ? ` #${el.id}` : ''}`
+
+  const sanitizeElement = (el: Element) => {
+    const known = el.namespaceURI === SVG_NS
+    if (known && UNWRAP_ELEMENTS.has(el.localName)) {
+      removed.push(describe(el))
+      const moved = [...el.children]
+      el.replaceWith(...el.childNodes)
+      moved.forEach(sanitizeElement)
+      return
+    }
+    if (!known || !ALLOWED_ELEMENTS.has(el.localName)) {
+      // Metadatos de editores (sodipodi, inkscape, rdf) se quitan sin avisar
+      if ((known && el.localName !== 'metadata') || el.localName === 'script') removed.push(describe(el))
+      el.remove()
+      return
+    }
+    sanitizeAttributes(el)
+    for (const child of [...el.children]) sanitizeElement(child)
+  }
+
+  const sanitizeAttributes = (el: Element) => {
+    for (const attr of [...el.attributes]) {
+      const name = attr.name
+      const isHref = name === 'href' || (attr.namespaceURI === XLINK_NS && attr.localName === 'href')
+      if (isHref) {
+        if (!isSafeHref(el, attr.value)) {
+          removed.push(`${name} en ${describe(el)}`)
+          el.removeAttributeNode(attr)
+        }
+        continue
+      }
+      if (!ALLOWED_ATTRIBUTES.has(name)) {
+        if (/^on/i.test(name)) removed.push(`${name} en ${describe(el)}`)
+        el.removeAttributeNode(attr)
+        continue
+      }
+      if (name === 'style') {
+        const { style, unsafe } = sanitizeInlineStyle(attr.value)
+        if (unsafe.length > 0) removed.push(`estilo (${unsafe.join(', ')}) en ${describe(el)}`)
+        if (style) el.setAttribute('style', style)
+        else el.removeAttributeNode(attr)
+        continue
+      }
+      if (isSafeValue(attr.value)) continue
+      removed.push(`${name} en ${describe(el)}`)
+      el.removeAttributeNode(attr)
+    }
+  }
+
+  sanitizeAttributes(root)
+  for (const child of [...root.children]) sanitizeElement(child)
+
+  // Un <image> sin href válido no aporta nada
+  for (const image of [...root.getElementsByTagNameNS(SVG_NS, 'image')]) {
+    if (!image.hasAttribute('href') && !image.hasAttributeNS(XLINK_NS, 'href')) image.remove()
+  }
+
+  return { svg: new XMLSerializer().serializeToString(root), removed }
+}
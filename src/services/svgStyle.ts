@@ -0,0 +1,67 @@
+// ─── Valores CSS de los planos SVG ───────────────────────────────────
+//
+// Comprobaciones del saneado de planos (`svgSanitizer.ts`) sobre los valores
+// de atributos y del atributo `style`. No dependen del DOM, así que los casos
+// de regresión (`npm run check-svg-styles`) se ejecutan en Node.
+
+/** `url(#id)`: la única referencia permitida, a un elemento del propio SVG */
+const LOCAL_URL = /url\(\s*#[\w.:-]+\s*\)/gi
+/** Funciones CSS que cargan imágenes (también con prefijo, `-webkit-image-set(`) */
+const IMAGE_FUNCTION = /(?:image-set|image|cross-fade|element|src)\s*\(/i
+const UNSAFE_CSS = /@import|expression\s*\(|javascript:|behavior\s*:|-moz-binding/i
+
+/**
+ * Propiedades que se conservan en `style`: pintura y texto. Todo lo demás
+ * (fondos, cursores, máscaras, posición…) se quita; en el `<svg>` raíz, que
+ * dentro del HTML es una caja CSS, un `background-image` cargaría recursos.
+ */
+const STYLE_PROPERTIES = /^(?:fill(?:-opacity|-rule)?|stroke(?:-[a-z]+)?|opacity|color|stop-color|stop-opacity|paint-order|font(?:-[a-z]+)?|text-anchor|text-decoration|dominant-baseline|letter-spacing|word-spacing|display|visibility)$/
+/** Funciones que pueden aparecer en un valor de `style`, además de `url(#id)` */
+const STYLE_FUNCTIONS = new Set(['rgb', 'rgba', 'hsl', 'hsla'])
+
+/** Sin `url()` que no sea `url(#id)` */
+function hasOnlyLocalUrls(value: string): boolean {
+  return !/url\s*\(/i.test(value.replace(LOCAL_URL, ''))
+}
+
+/** Valor de un atributo de presentación (`fill`, `clip-path`…) */
+export function isSafeValue(value: string): boolean {
+  return !value.includes('\\') && !IMAGE_FUNCTION.test(value) && !UNSAFE_CSS.test(value)
+    && hasOnlyLocalUrls(value)
+}
+
+/**
+ * Valor de una declaración de `style`. Sin comillas, escapes ni comentarios
+ * (con ellos se disfraza un `url(` o una función); solo colores y `url(#id)`.
+ */
+function isSafeStyleValue(value: string): boolean {
+  if (/["'\\]|\/\*/.test(value) || !isSafeValue(value)) return false
+  const functions = value.replace(LOCAL_URL, '').matchAll(/([a-z-]*)\s*\(/gi)
+  return [...functions].every(([, name]) => STYLE_FUNCTIONS.has(name.toLowerCase()))
+}
+
+export interface SanitizedStyle {
+  style: string
+  /** Declaraciones quitadas por su valor (las propiedades desconocidas se quitan sin avisar) */
+  unsafe: string[]
+}
+
+/** Deja en un `style` solo las declaraciones de pintura y texto con valores seguros */
+export function sanitizeInlineStyle(style: string): SanitizedStyle {
+  const kept: string[] = []
+  const unsafe: string[] = []
+  for (const decl of style.split(';')) {
+    const colon = decl.indexOf(':')
+    if (colon < 0) continue
+    const property = decl.slice(0, colon).trim().toLowerCase()
+    const value = decl.slice(colon + 1).trim()
+    if (!STYLE_PROPERTIES.test(property)) {
+      // Con un valor peligroso se avisa aunque la propiedad no se hubiera conservado
+      if (!isSafeStyleValue(value)) unsafe.push(property)
+      continue
+    }
+    if (isSafeStyleValue(value)) kept.push(`${property}:${value}`)
+    else unsafe.push(property)
+  }
+  return { style: kept.join(';'), unsafe }
+}
@@ -0,0 +1,138 @@
+import type { ApiClient } from './api'
+import type { StorageUnit, UnitStatus } from '../types'
+
+// ─── Tipos ────────────────────────────────────────────────────────────
+
+export interface UnitStatusChange {
+  storageUnitId: string
+  status: UnitStatus
+}
+
+/** 'push' → SSE del backend; 'polling' → getPlan periódico */
+export type UnitStatusMode = 'push' | 'polling'
+
+interface SubscribeOptions {
+  /** Intervalo del polling de respaldo. Default: 15 s */
+  pollIntervalMs?: number
+  onModeChange?: (mode: UnitStatusMode) => void
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 15_000
+/** Errores seguidos del EventSource antes de pasar a polling */
+const MAX_PUSH_ERRORS = 3
+const UNIT_STATUSES: readonly UnitStatus[] = ['AVAILABLE', 'OCCUPIED', 'RESERVED', 'MAINTENANCE']
+
+// ─── Parseo de eventos ────────────────────────────────────────────────
+
+function toChange(raw: unknown): UnitStatusChange | null {
+  if (!raw || typeof raw !== 'object') return null
+  const { storageUnitId, id, status } = raw as Record<string, unknown>
+  const unitId = typeof storageUnitId === 'string' ? storageUnitId : typeof id === 'string' ? id : null
+  if (!unitId || typeof status !== 'string' || !(UNIT_STATUSES as readonly string[]).includes(status)) return null
+  return { storageUnitId: unitId, status: status as UnitStatus }
+}
+
+/** Acepta `{ storageUnitId, status }`, un array de ellos o `{ updates: [...] }`. */
+function parseEventData(data: string): UnitStatusChange[] {
+  let json: unknown
+  try { json = JSON.parse(data) } catch { return [] }
+  const list = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as Record<string, unknown>).updates)
+      ? (json as Record<string, unknown>).updates as unknown[]
+      : [json]
+  return list.map(toChange).filter((c): c is UnitStatusChange => c !== null)
+}
+
+// ─── Suscripción ──────────────────────────────────────────────────────
+
+export function getUnitEventsUrl(client: Pick<ApiClient, 'baseUrl' | 'tenantSlug'>): string {
+  return `${client.baseUrl}/api/public/plan/${encodeURIComponent(client.tenantSlug)}/events`
+}
+
+/**
+ * Se suscribe a los cambios de estado de los trasteros del tenant del cliente.
+ * Usa Server-Sent Events (`unit-status`) y, si el navegador o el backend no
+ * lo soportan, recurre a consultar el plan periódicamente. En modo polling
+ * se emite el estado de todos los trasteros; el consumidor aplica solo las
+ * diferencias (ver `applyStatusChanges`). Devuelve la función para cancelar.
+ */
+export function subscribeToUnitStatus(
+  client: ApiClient,
+  onChanges: (changes: UnitStatusChange[]) => void,
+  options?: SubscribeOptions,
+): () => void {
+  const pollInterval = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  let closed = false
+  let source: EventSource | null = null
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  const controller = new AbortController()
+
+  const poll = async () => {
+    if (closed) return
+    try {
+      const { storageUnits } = await client.getPlan({ requireSvgUrl: false, fresh: true, signal: controller.signal })
+      if (!closed) onChanges(storageUnits.map(u => ({ storageUnitId: u.id, status: u.status })))
+    } catch (err) {
+      if (!closed) console.warn('[UnitStatus] Error consultando el plan:', err)
+    }
+    if (!closed) pollTimer = setTimeout(poll, pollInterval)
+  }
+
+  const startPolling = () => {
+    if (closed || pollTimer) return
+    console.debug('[UnitStatus] Usando polling cada', pollInterval, 'ms')
+    options?.onModeChange?.('polling')
+    pollTimer = setTimeout(poll, pollInterval)
+  }
+
+  if (typeof EventSource === 'undefined') {
+    startPolling()
+  } else {
+    let errors = 0
+    // EventSource no admite cabeceras: el canal no recibe las `headers` del cliente
+    source = new EventSource(getUnitEventsUrl(client))
+    source.onopen = () => {
+      errors = 0
+      options?.onModeChange?.('push')
+    }
+    const handle = (ev: MessageEvent<string>) => {
+      errors = 0
+      const changes = parseEventData(ev.data)
+      if (changes.length > 0) onChanges(changes)
+    }
+    source.addEventListener('unit-status', handle)
+    source.onmessage = handle
+    source.onerror = () => {
+      errors++
+      // Sin conexión nunca abierta (404, proxy sin SSE…) o caídas repetidas → polling
+      if (source?.readyState === EventSource.CLOSED || errors >= MAX_PUSH_ERRORS) {
+        console.warn('[UnitStatus] Canal de eventos no disponible; se pasa a polling')
+        source?.close()
+        source = null
+        startPolling()
+      }
+    }
+  }
+
+  return () => {
+    closed = true
+    controller.abort()
+    source?.close()
+    if (pollTimer) clearTimeout(pollTimer)
+  }
+}
+
+/** Aplica los cambios; devuelve el mismo array si ningún estado cambió. */
+export function applyStatusChanges(units: StorageUnit[], changes: UnitStatusChange[]): StorageUnit[] {
+  if (changes.length === 0) return units
+  const byId = new Map(changes.map(c => [c.storageUnitId, c.status]))
+  let changed = false
+  const next = units.map(u => {
+    const status = byId.get(u.id)
+    if (!status || status === u.status) return u
+    changed = true
+    return { ...u, status }
+  })
+  return changed ? next : units
+}
@@ -0,0 +1,562 @@
+import { ApiError } from './apiError'
+import type {
+  BillingMode,
+  ColorScheme,
+  ConfirmFullReservationResponse,
+  ConfirmReservationBatchResponse,
+  ExtraBillingType,
+  PlanLabelMode,
+  PortalCredentials,
+  RawStorageUnit,
+  TenantExtra,
+  TenantExtraGroup,
+  TenantExtrasResponse,
+  TenantSettings,
+  TenantTheme,
+  UnitAttributes,
+  UnitHold,
+  UnitStatus,
+} from '../types'
+
+// ─── Diagnóstico ──────────────────────────────────────────────────────
+
+/** Problema encontrado al validar una respuesta: ruta JSON + descripción. */
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+type Issues = ValidationIssue[]
+type Obj = Record<string, unknown>
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`
+  if (typeof value === 'object') return 'objeto'
+  return String(value)
+}
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function report(source: string, issues: Issues): void {
+  if (issues.length === 0) return
+  console.warn(
+    `[API] ${source}: ${issues.length} problema(s) en la respuesta del backend\n` +
+    issues.map(i => `  · ${i.path}: ${i.message}`).join('\n')
+  )
+}
+
+/** La respuesta no es utilizable en absoluto → ApiError INVALID_RESPONSE. */
+function fail(source: string, issues: Issues): never {
+  report(source, issues)
+  const detail = issues.map(i => `${i.path}: ${i.message}`).join('; ')
+  throw new ApiError(`Respuesta inválida del backend (${source}). ${detail}`, { code: 'INVALID_RESPONSE' })
+}
+
+// ─── Lectores de campos ───────────────────────────────────────────────
+
+function readString(obj: Obj, key: string, path: string, issues: Issues): string | undefined {
+  const v = obj[key]
+  if (typeof v === 'string') return v
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v)
+  if (v !== undefined && v !== null) issues.push({ path: `${path}.${key}`, message: `se esperaba texto, recibido ${describe(v)}` })
+  return undefined
+}
+
+function readNumber(obj: Obj, key: string, path: string, issues: Issues): number | undefined {
+  const v = obj[key]
+  if (typeof v === 'number' && Number.isFinite(v)) return v
+  if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) return Number(v)
+  if (v !== undefined && v !== null) issues.push({ path: `${path}.${key}`, message: `se esperaba número, recibido ${describe(v)}` })
+  return undefined
+}
+
+function readBoolean(obj: Obj, key: string, path: string, issues: Issues): boolean | undefined {
+  const v = obj[key]
+  if (typeof v === 'boolean') return v
+  if (v !== undefined && v !== null) issues.push({ path: `${path}.${key}`, message: `se esperaba booleano, recibido ${describe(v)}` })
+  return undefined
+}
+
+function readEnum<T extends string>(
+  obj: Obj, key: string, allowed: readonly T[], path: string, issues: Issues,
+): T | undefined {
+  const v = obj[key]
+  if (typeof v === 'string' && (allowed as readonly string[]).includes(v)) return v as T
+  if (v !== undefined && v !== null) {
+    issues.push({ path: `${path}.${key}`, message: `valor ${describe(v)} no admitido (${allowed.join(' | ')})` })
+  }
+  return undefined
+}
+
+// ─── Trasteros ────────────────────────────────────────────────────────
+
+const UNIT_STATUSES: readonly UnitStatus[] = ['AVAILABLE', 'OCCUPIED', 'RESERVED', 'MAINTENANCE']
+
+/**
+ * Valida un trastero. Devuelve null si no es utilizable (sin id, número o
+ * precio). Un estado desconocido se trata como MAINTENANCE para que no se
+ * pueda seleccionar.
+ */
+export function validateRawStorageUnit(raw: unknown, path: string, issues: Issues): RawStorageUnit | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: `se esperaba un objeto, recibido ${describe(raw)}` })
+    return null
+  }
+  const local: Issues = []
+  const id     = readString(raw, 'id', path, local)
+  const number = readNumber(raw, 'number', path, local)
+  const price  = readNumber(raw, 'price', path, local)
+
+  const missing = [
+    id === undefined && 'id',
+    number === undefined && 'number',
+    (price === undefined || price < 0) && 'price',
+  ].filter(Boolean)
+  if (missing.length > 0) {
+    issues.push(...local, { path, message: `trastero descartado: falta o no es válido ${missing.join(', ')}` })
+    return null
+  }
+
+  let shapeId = readString(raw, 'shapeId', path, local)
+  if (!shapeId) {
+    shapeId = `T${number}`
+    local.push({ path: `${path}.shapeId`, message: `ausente; se usa "${shapeId}"` })
+  }
+
+  let status = readEnum(raw, 'status', UNIT_STATUSES, path, local)
+  if (!status) {
+    status = 'MAINTENANCE'
+    if (raw.status === undefined) local.push({ path: `${path}.status`, message: 'ausente; se marca como no disponible' })
+  }
+
+  const unit: RawStorageUnit = {
+    id: id!,
+    number: number!,
+    shapeId,
+    status,
+    type: readString(raw, 'type', path, local) ?? '',
+    price: price!,
+  }
+
+  if (typeof raw.dimensions === 'string') unit.dimensions = raw.dimensions
+  else if (typeof raw.dimensions === 'number' && Number.isFinite(raw.dimensions)) unit.dimensions = raw.dimensions
+  else if (raw.dimensions !== undefined && raw.dimensions !== null) {
+    local.push({ path: `${path}.dimensions`, message: `se esperaba texto o número, recibido ${describe(raw.dimensions)}` })
+  }
+  for (const key of ['width', 'height', 'length', 'area'] as const) {
+    const v = readNumber(raw, key, path, local)
+    if (v !== undefined) unit[key] = v
+  }
+  const attributes = validateUnitAttributes(raw.attributes, `${path}.attributes`, local)
+  if (attributes) unit.attributes = attributes
+
+  issues.push(...local)
+  return unit
+}
+
+const ATTRIBUTE_MEASURES = ['ceilingHeight', 'doorWidth'] as const
+const ATTRIBUTE_FLAGS = ['vehicleAccess', 'climateControl', 'groundFloor', 'powerSocket', 'lighting'] as const
+
+/** Características del trastero: lo inválido se descarta campo a campo; sin ninguna válida, undefined */
+function validateUnitAttributes(raw: unknown, path: string, issues: Issues): UnitAttributes | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (!isObject(raw)) {
+    issues.push({ path, message: `se esperaba un objeto, recibido ${describe(raw)}` })
+    return undefined
+  }
+  const attributes: UnitAttributes = {}
+  const floor = readNumber(raw, 'floor', path, issues)
+  if (floor !== undefined && Number.isInteger(floor)) attributes.floor = floor
+  else if (floor !== undefined) issues.push({ path: `${path}.floor`, message: `se esperaba un entero, recibido ${floor}` })
+  for (const key of ATTRIBUTE_MEASURES) {
+    const v = readNumber(raw, key, path, issues)
+    if (v !== undefined && v > 0) attributes[key] = v
+  }
+  for (const key of ATTRIBUTE_FLAGS) {
+    const v = readBoolean(raw, key, path, issues)
+    if (v !== undefined) attributes[key] = v
+  }
+  return Object.keys(attributes).length > 0 ? attributes : undefined
+}
+
+/** `seen` se comparte entre plantas: un id no puede repetirse en todo el plan */
+function validateUnitList(raw: unknown, path: string, issues: Issues, seen = new Set<string>()): RawStorageUnit[] {
+  if (!Array.isArray(raw)) return []
+  const units: RawStorageUnit[] = []
+  raw.forEach((item, i) => {
+    const unit = validateRawStorageUnit(item, `${path}[${i}]`, issues)
+    if (!unit) return
+    if (seen.has(unit.id)) {
+      issues.push({ path: `${path}[${i}]`, message: `id duplicado "${unit.id}"; se descarta` })
+      return
+    }
+    seen.add(unit.id)
+    units.push(unit)
+  })
+  return units
+}
+
+// ─── Plan ─────────────────────────────────────────────────────────────
+
+const BILLING_MODES: readonly BillingMode[] = ['SAME_DAY', 'FIRST_OF_MONTH', 'BOTH']
+const PLAN_LABEL_MODES: readonly PlanLabelMode[] = ['none', 'number', 'size', 'price']
+const COLOR_SCHEMES: readonly ColorScheme[] = ['light', 'dark', 'auto']
+const PLAN_PALETTE_KEYS = ['available', 'selected', 'occupied', 'filtered'] as const
+
+/** Color CSS válido. Fuera del navegador (scripts) no se puede comprobar y se acepta */
+function readColor(obj: Obj, key: string, path: string, issues: Issues): string | undefined {
+  const v = readString(obj, key, path, issues)
+  if (v === undefined) return undefined
+  if (typeof CSS === 'undefined' || CSS.supports('color', v)) return v
+  issues.push({ path: `${path}.${key}`, message: `color no válido ${describe(v)}` })
+  return undefined
+}
+
+/** Tema del tenant: lo inválido se descarta campo a campo y se usa el tema por defecto */
+function validateTenantTheme(raw: unknown, path: string, issues: Issues): TenantTheme | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (!isObject(raw)) {
+    issues.push({ path, message: `se esperaba un objeto, recibido ${describe(raw)}` })
+    return undefined
+  }
+  const theme: TenantTheme = {}
+  const primaryColor = readColor(raw, 'primaryColor', path, issues)
+  if (primaryColor) theme.primaryColor = primaryColor
+
+  if (isObject(raw.planColors)) {
+    const palette: NonNullable<TenantTheme['planColors']> = {}
+    for (const key of PLAN_PALETTE_KEYS) {
+      const color = readColor(raw.planColors, key, `${path}.planColors`, issues)
+      if (color) palette[key] = color
+    }
+    theme.planColors = palette
+  } else if (raw.planColors !== undefined && raw.planColors !== null) {
+    issues.push({ path: `${path}.planColors`, message: `se esperaba un objeto, recibido ${describe(raw.planColors)}` })
+  }
+
+  const logoUrl = readString(raw, 'logoUrl', path, issues)
+  if (logoUrl && /^(https?:\/\/|\/)/i.test(logoUrl)) theme.logoUrl = logoUrl
+  else if (logoUrl) issues.push({ path: `${path}.logoUrl`, message: 'se esperaba una URL http(s) o una ruta absoluta' })
+
+  const fontFamily = readString(raw, 'fontFamily', path, issues)
+  if (fontFamily && !/[;{}]/.test(fontFamily)) theme.fontFamily = fontFamily
+  else if (fontFamily) issues.push({ path: `${path}.fontFamily`, message: `fuente no válida ${describe(fontFamily)}` })
+
+  const borderRadius = readNumber(raw, 'borderRadius', path, issues)
+  if (borderRadius !== undefined && borderRadius >= 0) theme.borderRadius = borderRadius
+
+  const colorScheme = readEnum(raw, 'colorScheme', COLOR_SCHEMES, path, issues)
+  if (colorScheme) theme.colorScheme = colorScheme
+  return theme
+}
+
+/** Id de la planta en las respuestas de una sola planta (sin `floors`) */
+export const SINGLE_FLOOR_ID = 'main'
+
+export interface ValidatedFloor {
+  id: string
+  /** Vacío en las respuestas de una sola planta */
+  name: string
+  svgUrl: string
+  storageUnits: RawStorageUnit[]
+}
+
+export interface ValidatedPlan {
+  floors: ValidatedFloor[]
+  billingMode?: BillingMode
+  requireDniUpload?: boolean
+}
+
+function validateFloors(raw: unknown[], options: { requireSvgUrl: boolean }, source: string, issues: Issues): ValidatedFloor[] {
+  const floors: ValidatedFloor[] = []
+  const seenFloors = new Set<string>()
+  const seenUnits = new Set<string>()
+  raw.forEach((item, i) => {
+    const path = `$.floors[${i}]`
+    if (!isObject(item)) {
+      issues.push({ path, message: `planta descartada: se esperaba un objeto, recibido ${describe(item)}` })
+      return
+    }
+    const id = readString(item, 'id', path, issues)
+    if (!id || seenFloors.has(id)) {
+      issues.push({ path, message: id ? `id de planta duplicado "${id}"; se descarta` : 'planta descartada: falta id' })
+      return
+    }
+    seenFloors.add(id)
+    const svgUrl = readString(item, 'svgUrl', path, issues)
+    if (options.requireSvgUrl && !svgUrl) {
+      fail(source, [...issues, { path: `${path}.svgUrl`, message: `el backend no devolvió una URL de plano válida (${describe(item.svgUrl)})` }])
+    }
+    if (!Array.isArray(item.storageUnits)) {
+      issues.push({ path: `${path}.storageUnits`, message: `se esperaba un array de trasteros, recibido ${describe(item.storageUnits)}` })
+    }
+    floors.push({
+      id,
+      name: readString(item, 'name', path, issues) || `Planta ${i + 1}`,
+      svgUrl: svgUrl ?? '',
+      storageUnits: validateUnitList(item.storageUnits, `${path}.storageUnits`, issues, seenUnits),
+    })
+  })
+  if (floors.length === 0) fail(source, [...issues, { path: '$.floors', message: 'ninguna planta es válida' }])
+  return floors
+}
+
+/**
+ * Valida GET /plan. Acepta el formato de una sola planta (`svgUrl` +
+ * `storageUnits`) y el de varias (`floors`); siempre devuelve plantas.
+ * Descarta los trasteros inválidos con aviso en consola.
+ */
+export function validatePlanResponse(raw: unknown, options: { requireSvgUrl: boolean }): ValidatedPlan {
+  const source = 'plan'
+  const issues: Issues = []
+  if (!isObject(raw)) fail(source, [{ path: '$', message: `se esperaba un objeto, recibido ${describe(raw)}` }])
+
+  let floors: ValidatedFloor[]
+  if (Array.isArray(raw.floors)) {
+    floors = validateFloors(raw.floors, options, source, issues)
+  } else {
+    if (raw.floors !== undefined && raw.floors !== null) {
+      issues.push({ path: '$.floors', message: `se esperaba un array de plantas, recibido ${describe(raw.floors)}` })
+    }
+    const svgUrl = readString(raw, 'svgUrl', '$', issues)
+    if (options.requireSvgUrl && !svgUrl) {
+      fail(source, [...issues, { path: '$.svgUrl', message: `el backend no devolvió una URL de plano válida (${describe(raw.svgUrl)})` }])
+    }
+    if (!Array.isArray(raw.storageUnits)) {
+      fail(source, [...issues, { path: '$.storageUnits', message: `se esperaba un array de trasteros, recibido ${describe(raw.storageUnits)}` }])
+    }
+    floors = [{
+      id: SINGLE_FLOOR_ID,
+      name: '',
+      svgUrl: svgUrl ?? '',
+      storageUnits: validateUnitList(raw.storageUnits, '$.storageUnits', issues),
+    }]
+  }
+
+  const plan: ValidatedPlan = { floors }
+  const billingMode = readEnum(raw, 'billingMode', BILLING_MODES, '$', issues)
+  if (billingMode) plan.billingMode = billingMode
+  const requireDniUpload = readBoolean(raw, 'requireDniUpload', '$', issues)
+  if (requireDniUpload !== undefined) plan.requireDniUpload = requireDniUpload
+
+  report(source, issues)
+  return plan
+}
+
+/** Valida GET /storage-units/available (endpoint legacy): array de trasteros. */
+export function validateStorageUnitList(raw: unknown): RawStorageUnit[] {
+  const issues: Issues = []
+  if (!Array.isArray(raw)) issues.push({ path: '$', message: `se esperaba un array, recibido ${describe(raw)}` })
+  const units = validateUnitList(raw, '$', issues)
+  report('trasteros disponibles', issues)
+  return units
+}
+
+// ─── Configuración del tenant ─────────────────────────────────────────
+
+/**
+ * Valida GET /settings. Los campos inválidos toman el valor por defecto:
+ * billingMode BOTH (el cliente elige) y requireDniUpload false.
+ */
+export function validateTenantSettings(raw: unknown): TenantSettings {
+  const source = 'configuración del tenant'
+  const issues: Issues = []
+  if (!isObject(raw)) fail(source, [{ path: '$', message: `se esperaba un objeto, recibido ${describe(raw)}` }])
+
+  let billingMode = readEnum(raw, 'billingMode', BILLING_MODES, '$', issues)
+  if (!billingMode) {
+    billingMode = 'BOTH'
+    if (raw.billingMode === undefined) issues.push({ path: '$.billingMode', message: 'ausente; se usa BOTH' })
+  }
+
+  const settings: TenantSettings = {
+    name: readString(raw, 'name', '$', issues) ?? '',
+    billingMode,
+    requireDniUpload: readBoolean(raw, 'requireDniUpload', '$', issues) ?? false,
+  }
+  const holdMinutes = readNumber(raw, 'holdMinutes', '$', issues)
+  if (holdMinutes !== undefined && holdMinutes > 0) settings.holdMinutes = holdMinutes
+  const planLabels = readEnum(raw, 'planLabels', PLAN_LABEL_MODES, '$', issues)
+  if (planLabels) settings.planLabels = planLabels
+  const planPatterns = readBoolean(raw, 'planPatterns', '$', issues)
+  if (planPatterns !== undefined) settings.planPatterns = planPatterns
+  const theme = validateTenantTheme(raw.theme, '$.theme', issues)
+  if (theme) settings.theme = theme
+
+  report(source, issues)
+  return settings
+}
+
+// ─── Extras ───────────────────────────────────────────────────────────
+
+const EXTRA_BILLING_TYPES: readonly ExtraBillingType[] = ['ONE_TIME', 'MONTHLY']
+
+function validateExtra(raw: unknown, path: string, issues: Issues): TenantExtra | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: `se esperaba un objeto, recibido ${describe(raw)}` })
+    return null
+  }
+  const id    = readString(raw, 'id', path, issues)
+  const name  = readString(raw, 'name', path, issues)
+  const price = readNumber(raw, 'price', path, issues)
+  if (!id || !name || price === undefined || price < 0) {
+    issues.push({ path, message: 'extra descartado: falta id, nombre o precio válido' })
+    return null
+  }
+  const extra: TenantExtra = {
+    id,
+    name,
+    price,
+    billingType: readEnum(raw, 'billingType', EXTRA_BILLING_TYPES, path, issues) ?? 'MONTHLY',
+    required: readBoolean(raw, 'required', path, issues) ?? false,
+    maxQuantity: Math.max(1, Math.floor(readNumber(raw, 'maxQuantity', path, issues) ?? 1)),
+  }
+  const description = readString(raw, 'description', path, issues)
+  if (description) extra.description = description
+  return extra
+}
+
+function validateExtraList(raw: unknown, path: string, issues: Issues): TenantExtra[] {
+  if (raw === undefined || raw === null) return []
+  if (!Array.isArray(raw)) {
+    issues.push({ path, message: `se esperaba un array, recibido ${describe(raw)}` })
+    return []
+  }
+  return raw
+    .map((item, i) => validateExtra(item, `${path}[${i}]`, issues))
+    .filter((e): e is TenantExtra => e !== null)
+}
+
+/** Valida GET /extras. Si falta `groups` o `ungrouped` se usa una lista vacía. */
+export function validateTenantExtras(raw: unknown): TenantExtrasResponse {
+  const source = 'extras del tenant'
+  const issues: Issues = []
+  if (!isObject(raw)) fail(source, [{ path: '$', message: `se esperaba un objeto, recibido ${describe(raw)}` }])
+
+  const groups: TenantExtraGroup[] = []
+  if (Array.isArray(raw.groups)) {
+    raw.groups.forEach((g, i) => {
+      const path = `$.groups[${i}]`
+      if (!isObject(g)) {
+        issues.push({ path, message: `se esperaba un objeto, recibido ${describe(g)}` })
+        return
+      }
+      const id   = readString(g, 'id', path, issues)
+      const name = readString(g, 'name', path, issues)
+      if (!id || !name) {
+        issues.push({ path, message: 'grupo descartado: falta id o nombre' })
+        return
+      }
+      const group: TenantExtraGroup = {
+        id,
+        name,
+        selectionType: readEnum(g, 'selectionType', ['SINGLE', 'MULTIPLE'] as const, path, issues) ?? 'MULTIPLE',
+        extras: validateExtraList(g.extras, `${path}.extras`, issues),
+      }
+      const description = readString(g, 'description', path, issues)
+      if (description) group.description = description
+      groups.push(group)
+    })
+  } else if (raw.groups !== undefined) {
+    issues.push({ path: '$.groups', message: `se esperaba un array, recibido ${describe(raw.groups)}` })
+  }
+
+  const extras: TenantExtrasResponse = {
+    groups,
+    ungrouped: validateExtraList(raw.ungrouped, '$.ungrouped', issues),
+  }
+
+  report(source, issues)
+  return extras
+}
+
+// ─── Confirmación ─────────────────────────────────────────────────────
+
+function validatePortalCredentials(raw: unknown, issues: Issues): PortalCredentials | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (!isObject(raw)) {
+    issues.push({ path: '$.portalCredentials', message: `se esperaba un objeto, recibido ${describe(raw)}` })
+    return undefined
+  }
+  const username          = readString(raw, 'username', '$.portalCredentials', issues)
+  const temporaryPassword = readString(raw, 'temporaryPassword', '$.portalCredentials', issues)
+  if (!username || !temporaryPassword) {
+    issues.push({ path: '$.portalCredentials', message: 'incompletas; se ignoran' })
+    return undefined
+  }
+  return { username, temporaryPassword }
+}
+
+/** Valida POST /confirm-full. La reserva ya está hecha: nunca lanza por campos opcionales. */
+export function validateConfirmFullReservationResponse(raw: unknown): ConfirmFullReservationResponse {
+  const source = 'confirmación de reserva'
+  const issues: Issues = []
+  const obj: Obj = isObject(raw) ? raw : {}
+  if (!isObject(raw)) issues.push({ path: '$', message: `se esperaba un objeto, recibido ${describe(raw)}` })
+
+  const res: ConfirmFullReservationResponse = {
+    success: readBoolean(obj, 'success', '$', issues) ?? true,
+    message: readString(obj, 'message', '$', issues) ?? '',
+  }
+  const credentials = validatePortalCredentials(obj.portalCredentials, issues)
+  if (credentials) res.portalCredentials = credentials
+
+  report(source, issues)
+  return res
+}
+
+/** Valida POST /confirm-batch. Los contratos mal formados se descartan. */
+export function validateConfirmReservationBatchResponse(raw: unknown): ConfirmReservationBatchResponse {
+  const source = 'confirmación por lotes'
+  const issues: Issues = []
+  const base = validateConfirmFullReservationResponse(raw)
+  const obj: Obj = isObject(raw) ? raw : {}
+
+  const contracts: ConfirmReservationBatchResponse['contracts'] = []
+  if (Array.isArray(obj.contracts)) {
+    obj.contracts.forEach((c, i) => {
+      const path = `$.contracts[${i}]`
+      if (!isObject(c)) {
+        issues.push({ path, message: `se esperaba un objeto, recibido ${describe(c)}` })
+        return
+      }
+      const storageUnitId = readString(c, 'storageUnitId', path, issues)
+      const contractId    = readString(c, 'contractId', path, issues)
+      if (storageUnitId && contractId) contracts.push({ storageUnitId, contractId })
+    })
+  } else if (obj.contracts !== undefined) {
+    issues.push({ path: '$.contracts', message: `se esperaba un array, recibido ${describe(obj.contracts)}` })
+  }
+
+  const res: ConfirmReservationBatchResponse = { ...base, contracts }
+  const customerId = readString(obj, 'customerId', '$', issues)
+  if (customerId) res.customerId = customerId
+
+  report(source, issues)
+  return res
+}
+
+// ─── Bloqueos ─────────────────────────────────────────────────────────
+
+/** Valida la respuesta de crear/renovar un bloqueo. Sin holdId o fecha válida no hay bloqueo. */
+export function validateUnitHold(raw: unknown): UnitHold {
+  const source = 'bloqueo de trasteros'
+  const issues: Issues = []
+  if (!isObject(raw)) fail(source, [{ path: '$', message: `se esperaba un objeto, recibido ${describe(raw)}` }])
+
+  const holdId    = readString(raw, 'holdId', '$', issues)
+  const expiresAt = readString(raw, 'expiresAt', '$', issues)
+  if (!holdId || !expiresAt || Number.isNaN(Date.parse(expiresAt))) {
+    fail(source, [...issues, { path: '$', message: 'falta holdId o expiresAt no es una fecha válida' }])
+  }
+  const storageUnitIds = Array.isArray(raw.storageUnitIds)
+    ? raw.storageUnitIds.filter((id): id is string => typeof id === 'string')
+    : []
+
+  report(source, issues)
+  return { holdId, expiresAt, storageUnitIds }
+}
@@ -0,0 +1,538 @@
+import { getShapeIdVariants, readSvgElements, type SvgElementNode } from './planValidator'
+
+// ─── Cómo llegar ──────────────────────────────────────────────────────
+//
+// Ruta a pie desde la entrada del centro (forma `PUERTA`) hasta un trastero.
+// Si el SVG trae una red de recorridos (`<g id="RECORRIDO">` con líneas,
+// polilíneas o paths abiertos) la ruta va por ella; si no, se busca sobre la
+// superficie de los pasillos (`PASILLO`, `PASILLO-2`…) con una rejilla que
+// prefiere ir por el centro. Como el validador, lee el SVG como texto: la
+// misma ruta sirve en el plano, en el anexo del contrato y al imprimirla.
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Contorno cerrado o tramo, en coordenadas del SVG */
+type Ring = Point[]
+
+export interface PlanGeometry {
+  viewBox: { x: number; y: number; width: number; height: number }
+  /** Formas con id (los grupos juntan las de dentro), con sus transformaciones aplicadas */
+  shapes: Map<string, Ring[]>
+  doors: Ring[][]
+  corridors: Ring[][]
+  /** Tramos de la red de recorridos; vacío si el plano no la trae */
+  network: [Point, Point][]
+}
+
+export interface PlanRoute {
+  unitId: string
+  /** De la puerta al centro del trastero */
+  points: Point[]
+  /** En unidades del SVG */
+  length: number
+}
+
+const DOOR_ID     = /^PUERTA/i
+const CORRIDOR_ID = /^PASILLO/i
+const NETWORK_ID  = /^RECORRIDO/i
+
+// ─── Transformaciones ─────────────────────────────────────────────────
+
+/** Matriz afín [a, b, c, d, e, f] como la de SVG */
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] }
+}
+
+function numbersIn(text: string): number[] {
+  return (text.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number)
+}
+
+/** Atributo `transform`: matrix, translate, scale, rotate, skewX y skewY */
+function parseTransform(value: string | undefined): Matrix {
+  let m = IDENTITY
+  for (const [, name, args] of (value ?? '').matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = numbersIn(args)
+    let t: Matrix | null = null
+    if (name === 'matrix' && n.length === 6) t = n as Matrix
+    else if (name === 'translate') t = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0]
+    else if (name === 'scale') t = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0]
+    else if (name === 'rotate') {
+      const a = ((n[0] ?? 0) * Math.PI) / 180
+      const [cx, cy] = [n[1] ?? 0, n[2] ?? 0]
+      t = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy])
+    }
+    else if (name === 'skewX') t = [1, 0, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+    else if (name === 'skewY') t = [1, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+    if (t) m = multiply(m, t)
+  }
+  return m
+}
+
+// ─── Formas ───────────────────────────────────────────────────────────
+
+/**
+ * Subtrazos de un path como polilíneas. Las curvas y los arcos se sustituyen
+ * por la recta hasta su punto final: basta para saber por dónde se pasa.
+ */
+function pathToRings(d: string): Ring[] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []
+  const rings: Ring[] = []
+  let ring: Ring = []
+  let x = 0, y = 0, startX = 0, startY = 0
+  let cmd = ''
+  let i = 0
+  const next = () => Number(tokens[i++])
+  const skip = (count: number) => { i += count }
+
+  while (i < tokens.length) {
+    if (/^[A-Za-z]/.test(tokens[i])) cmd = tokens[i++]
+    else if (!cmd) { i++; continue }
+    const rel = cmd === cmd.toLowerCase()
+    switch (cmd.toUpperCase()) {
+      case 'M': {
+        if (ring.length > 1) rings.push(ring)
+        const nx = next(), ny = next()
+        x = rel ? x + nx : nx
+        y = rel ? y + ny : ny
+        startX = x
+        startY = y
+        ring = [{ x, y }]
+        // Los pares que siguen a un M son líneas
+        cmd = rel ? 'l' : 'L'
+        continue
+      }
+      case 'L': case 'T': {
+        const nx = next(), ny = next()
+        x = rel ? x + nx : nx
+        y = rel ? y + ny : ny
+        break
+      }
+      case 'H': { const nx = next(); x = rel ? x + nx : nx; break }
+      case 'V': { const ny = next(); y = rel ? y + ny : ny; break }
+      case 'C': case 'S': case 'Q': case 'A': {
+        skip(cmd.toUpperCase() === 'C' ? 4 : cmd.toUpperCase() === 'A' ? 5 : 2)
+        const nx = next(), ny = next()
+        x = rel ? x + nx : nx
+        y = rel ? y + ny : ny
+        break
+      }
+      case 'Z': {
+        if (ring.length > 1) rings.push(ring)
+        ring = []
+        x = startX
+        y = startY
+        cmd = ''
+        continue
+      }
+      default:
+        cmd = ''
+        continue
+    }
+    if (!Number.isFinite(x) || !Number.isFinite(y)) break
+    if (ring.length === 0) ring.push({ x: startX, y: startY })
+    ring.push({ x, y })
+  }
+  if (ring.length > 1) rings.push(ring)
+  return rings
+}
+
+function ellipseRing(cx: number, cy: number, rx: number, ry: number): Ring {
+  return Array.from({ length: 16 }, (_, k) => {
+    const a = (k / 16) * Math.PI * 2
+    return { x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) }
+  })
+}
+
+/** Contornos propios de un elemento, sin transformar */
+function elementRings(el: SvgElementNode): Ring[] {
+  const num = (name: string) => parseFloat(el.attrs.get(name) ?? '0') || 0
+  switch (el.tag) {
+    case 'rect': {
+      const [x, y, w, h] = [num('x'), num('y'), num('width'), num('height')]
+      return w > 0 && h > 0 ? [[{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }]] : []
+    }
+    case 'circle':  return [ellipseRing(num('cx'), num('cy'), num('r'), num('r'))]
+    case 'ellipse': return [ellipseRing(num('cx'), num('cy'), num('rx'), num('ry'))]
+    case 'line':    return [[{ x: num('x1'), y: num('y1') }, { x: num('x2'), y: num('y2') }]]
+    case 'polygon':
+    case 'polyline': {
+      const n = numbersIn(el.attrs.get('points') ?? '')
+      const ring: Ring = []
+      for (let k = 0; k + 1 < n.length; k += 2) ring.push({ x: n[k], y: n[k + 1] })
+      return ring.length > 1 ? [ring] : []
+    }
+    case 'path': return pathToRings(el.attrs.get('d') ?? '')
+    default:     return []
+  }
+}
+
+/**
+ * Geometría del plano para calcular rutas. Lanza un Error si el texto no
+ * contiene un elemento `<svg>`.
+ */
+export function readPlanGeometry(svgText: string): PlanGeometry {
+  const elements = readSvgElements(svgText)
+  const matrices: Matrix[] = []
+  const shapes = new Map<string, Ring[]>()
+  const network: [Point, Point][] = []
+  const inNetwork: boolean[] = []
+  const ids = elements.map(el => el.attrs.get('id')?.trim() || null)
+
+  elements.forEach((el, i) => {
+    const parent = el.parent >= 0 ? matrices[el.parent] : IDENTITY
+    matrices[i] = el.tag === 'svg' && el.parent < 0 ? IDENTITY : multiply(parent, parseTransform(el.attrs.get('transform')))
+    inNetwork[i] = (el.parent >= 0 && inNetwork[el.parent]) || NETWORK_ID.test(ids[i] ?? '')
+
+    const rings = elementRings(el).map(ring => ring.map(p => apply(matrices[i], p)))
+    if (rings.length === 0) return
+    if (inNetwork[i]) {
+      for (const ring of rings) {
+        for (let k = 1; k < ring.length; k++) network.push([ring[k - 1], ring[k]])
+      }
+      return
+    }
+    // La forma cuenta para ella y para cada grupo con id que la contiene
+    for (let at = i; at >= 0; at = elements[at].parent) {
+      const id = ids[at]
+      if (!id) continue
+      const collected = shapes.get(id)
+      if (collected) collected.push(...rings)
+      else shapes.set(id, [...rings])
+    }
+  })
+
+  const root = elements.find(el => el.tag === 'svg')!
+  const vb = numbersIn(root.attrs.get('viewBox') ?? '')
+  const viewBox = vb.length === 4 && vb[2] > 0 && vb[3] > 0
+    ? { x: vb[0], y: vb[1], width: vb[2], height: vb[3] }
+    : { x: 0, y: 0, width: parseFloat(root.attrs.get('width') ?? '0') || 0, height: parseFloat(root.attrs.get('height') ?? '0') || 0 }
+
+  const byPrefix = (pattern: RegExp) => [...shapes].filter(([id]) => pattern.test(id)).map(([, rings]) => rings)
+  return { viewBox, shapes, doors: byPrefix(DOOR_ID), corridors: byPrefix(CORRIDOR_ID), network }
+}
+
+// ─── Geometría básica ─────────────────────────────────────────────────
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+function center(rings: Ring[]): Point {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const ring of rings) {
+    for (const p of ring) {
+      minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x)
+      minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y)
+    }
+  }
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }
+}
+
+/** Par-impar sobre todos los contornos: los huecos de un path quedan fuera */
+function isInside(p: Point, rings: Ring[]): boolean {
+  let inside = false
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i], b = ring[j]
+      if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+    }
+  }
+  return inside
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const len2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / len2))
+  return distance(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) })
+}
+
+export function routeLength(points: Point[]): number {
+  let total = 0
+  for (let i = 1; i < points.length; i++) total += distance(points[i - 1], points[i])
+  return total
+}
+
+// ─── Camino más corto ─────────────────────────────────────────────────
+
+/** Cola de prioridad mínima (montículo binario) de nodos por coste */
+class MinQueue {
+  private items: { node: number; cost: number }[] = []
+
+  get size(): number { return this.items.length }
+
+  push(node: number, cost: number): void {
+    const items = this.items
+    items.push({ node, cost })
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].cost <= items[i].cost) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): number {
+    const items = this.items
+    const top = items[0].node
+    const last = items.pop()!
+    if (items.length > 0) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const l = i * 2 + 1, r = l + 1
+        let min = i
+        if (l < items.length && items[l].cost < items[min].cost) min = l
+        if (r < items.length && items[r].cost < items[min].cost) min = r
+        if (min === i) break
+        ;[items[min], items[i]] = [items[i], items[min]]
+        i = min
+      }
+    }
+    return top
+  }
+}
+
+/**
+ * A* genérico: `neighbours` da los vecinos con el coste de llegar a cada uno
+ * y `estimate` una cota inferior del coste que falta. Devuelve los nodos del
+ * camino, de `start` a `goal`, o null si no hay.
+ */
+function shortestPath(
+  start: number,
+  goal: number,
+  neighbours: (node: number, visit: (next: number, cost: number) => void) => void,
+  estimate: (node: number) => number,
+): number[] | null {
+  const cost = new Map<number, number>([[start, 0]])
+  const from = new Map<number, number>()
+  const queue = new MinQueue()
+  queue.push(start, estimate(start))
+  while (queue.size > 0) {
+    const node = queue.pop()
+    if (node === goal) {
+      const path = [goal]
+      for (let at = goal; from.has(at); at = from.get(at)!) path.push(from.get(at)!)
+      return path.reverse()
+    }
+    const base = cost.get(node)!
+    neighbours(node, (next, step) => {
+      const total = base + step
+      if (total >= (cost.get(next) ?? Infinity)) return
+      cost.set(next, total)
+      from.set(next, node)
+      queue.push(next, total + estimate(next))
+    })
+  }
+  return null
+}
+
+// ─── Rutas por la red de recorridos ───────────────────────────────────
+
+function networkRouter(geometry: PlanGeometry): (from: Point, to: Point) => Point[] | null {
+  const { width, height } = geometry.viewBox
+  // Extremos a menos de esta distancia son el mismo cruce
+  const tolerance = Math.max(width, height, 1) / 200
+  const nodes: Point[] = []
+  const nodeAt = (p: Point) => {
+    const found = nodes.findIndex(n => distance(n, p) <= tolerance)
+    if (found >= 0) return found
+    nodes.push(p)
+    return nodes.length - 1
+  }
+  let edges = geometry.network.map(([a, b]) => [nodeAt(a), nodeAt(b)] as [number, number])
+
+  // Un extremo que cae en mitad de otro tramo parte ese tramo (cruces en T)
+  nodes.forEach((p, n) => {
+    edges = edges.flatMap(([a, b]): [number, number][] =>
+      a !== n && b !== n && distanceToSegment(p, nodes[a], nodes[b]) <= tolerance ? [[a, n], [n, b]] : [[a, b]])
+  })
+
+  const adjacency = nodes.map(() => [] as number[])
+  for (const [a, b] of edges) {
+    if (a === b) continue
+    adjacency[a].push(b)
+    adjacency[b].push(a)
+  }
+  const nearest = (p: Point) => nodes.reduce((best, n, i) => distance(n, p) < distance(nodes[best], p) ? i : best, 0)
+
+  return (from, to) => {
+    if (nodes.length === 0) return null
+    const start = nearest(from)
+    const goal = nearest(to)
+    const path = shortestPath(start, goal,
+      (node, visit) => adjacency[node].forEach(next => visit(next, distance(nodes[node], nodes[next]))),
+      node => distance(nodes[node], nodes[goal]))
+    return path ? [from, ...path.map(n => nodes[n]), to] : null
+  }
+}
+
+// ─── Rutas por los pasillos ───────────────────────────────────────────
+
+/** Celdas de la rejilla en el lado largo de los pasillos */
+const GRID_CELLS = 160
+/** Cuánto encarece pasar pegado a la pared (en celdas de holgura) */
+const WALL_PENALTY = 2
+
+function corridorRouter(geometry: PlanGeometry): (from: Point, to: Point) => Point[] | null {
+  const rings = geometry.corridors.flat()
+  const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (const p of rings.flat()) {
+    box.minX = Math.min(box.minX, p.x); box.maxX = Math.max(box.maxX, p.x)
+    box.minY = Math.min(box.minY, p.y); box.maxY = Math.max(box.maxY, p.y)
+  }
+  const cell = Math.max(box.maxX - box.minX, box.maxY - box.minY) / GRID_CELLS
+  if (!(cell > 0)) return () => null
+  const cols = Math.ceil((box.maxX - box.minX) / cell)
+  const rows = Math.ceil((box.maxY - box.minY) / cell)
+  const pointOf = (i: number): Point => ({ x: box.minX + ((i % cols) + 0.5) * cell, y: box.minY + (Math.floor(i / cols) + 0.5) * cell })
+
+  const walkable = new Uint8Array(cols * rows)
+  for (let i = 0; i < walkable.length; i++) {
+    const p = pointOf(i)
+    walkable[i] = geometry.corridors.some(corridor => isInside(p, corridor)) ? 1 : 0
+  }
+
+  // Holgura: distancia en celdas a la pared más cercana (BFS desde las paredes)
+  const clearance = new Uint16Array(cols * rows)
+  const queue: number[] = []
+  for (let i = 0; i < walkable.length; i++) {
+    const c = i % cols, r = Math.floor(i / cols)
+    const edge = c === 0 || r === 0 || c === cols - 1 || r === rows - 1
+    if (walkable[i] && !edge) clearance[i] = 0xffff
+    else { clearance[i] = walkable[i] ? 1 : 0; queue.push(i) }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head]
+    const c = i % cols
+    for (const n of [i - cols, i + cols, c > 0 ? i - 1 : -1, c < cols - 1 ? i + 1 : -1]) {
+      if (n < 0 || n >= clearance.length || clearance[n] <= clearance[i] + 1) continue
+      clearance[n] = clearance[i] + 1
+      queue.push(n)
+    }
+  }
+
+  const nearestWalkable = (p: Point) => {
+    let best = -1, bestDistance = Infinity
+    for (let i = 0; i < walkable.length; i++) {
+      if (!walkable[i]) continue
+      const d = distance(pointOf(i), p)
+      if (d < bestDistance) { best = i; bestDistance = d }
+    }
+    return best
+  }
+  const isWalkable = (p: Point) => {
+    const c = Math.floor((p.x - box.minX) / cell), r = Math.floor((p.y - box.minY) / cell)
+    return c >= 0 && r >= 0 && c < cols && r < rows && walkable[r * cols + c] === 1
+  }
+  const inSight = (a: Point, b: Point) => {
+    const steps = Math.ceil(distance(a, b) / (cell / 2))
+    for (let s = 1; s < steps; s++) {
+      if (!isWalkable({ x: a.x + ((b.x - a.x) * s) / steps, y: a.y + ((b.y - a.y) * s) / steps })) return false
+    }
+    return true
+  }
+
+  const MOVES: [number, number, number][] = [
+    [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+    [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+  ]
+
+  return (from, to) => {
+    const start = nearestWalkable(from)
+    const goal = nearestWalkable(to)
+    if (start < 0 || goal < 0) return null
+    const goalCol = goal % cols, goalRow = Math.floor(goal / cols)
+    const path = shortestPath(start, goal,
+      (node, visit) => {
+        const c = node % cols, r = Math.floor(node / cols)
+        for (const [dc, dr, step] of MOVES) {
+          const nc = c + dc, nr = r + dr
+          if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue
+          const next = nr * cols + nc
+          if (!walkable[next]) continue
+          // En diagonal sin cortar esquinas
+          if (dc !== 0 && dr !== 0 && (!walkable[r * cols + nc] || !walkable[nr * cols + c])) continue
+          visit(next, step * (1 + WALL_PENALTY / clearance[next]))
+        }
+      },
+      node => {
+        const dc = Math.abs((node % cols) - goalCol), dr = Math.abs(Math.floor(node / cols) - goalRow)
+        return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr)
+      })
+    if (!path) return null
+
+    // Se quitan los escalones de la rejilla: de cada punto se salta al último que se ve
+    const cells = path.map(pointOf)
+    const smooth = [cells[0]]
+    let anchor = 0
+    for (let i = 1; i < cells.length; i++) {
+      if (i + 1 < cells.length && inSight(cells[anchor], cells[i + 1])) continue
+      smooth.push(cells[i])
+      anchor = i
+    }
+    return [from, ...smooth, to]
+  }
+}
+
+// ─── API ──────────────────────────────────────────────────────────────
+
+/** Calculador de rutas de un plano, o null si el plano no tiene puerta o pasillos */
+export type RouteFinder = (shapeId: string) => Point[] | null
+
+export function createRouteFinder(geometry: PlanGeometry): RouteFinder | null {
+  if (geometry.doors.length === 0) return null
+  const router = geometry.network.length > 0 ? networkRouter(geometry)
+    : geometry.corridors.length > 0 ? corridorRouter(geometry)
+    : null
+  if (!router) return null
+  const doors = geometry.doors.map(center)
+
+  const findRoute = (shapeId: string): Point[] | null => {
+    const rings = getShapeIdVariants(shapeId).map(v => geometry.shapes.get(v)).find(r => r !== undefined)
+    if (!rings) return null
+    const target = center(rings)
+    // Con varias puertas, la que deja la ruta más corta
+    let best: Point[] | null = null
+    for (const door of doors) {
+      const points = router(door, target)
+      if (points && (!best || routeLength(points) < routeLength(best))) best = points
+    }
+    if (!best) return null
+    // Sin puntos repetidos (la puerta o el trastero pueden caer sobre la red)
+    const route = best
+    return route.filter((p, i) => i === 0 || distance(p, route[i - 1]) > 1e-6)
+  }
+
+  const cache = new Map<string, Point[] | null>()
+  return shapeId => {
+    if (!cache.has(shapeId)) cache.set(shapeId, findRoute(shapeId))
+    return cache.get(shapeId)!
+  }
+}
+
+/** Atajo: rutas de la entrada a cada trastero que se pueda alcanzar */
+export function findPlanRoutes(svgText: string, units: { id: string; shapeId: string }[]): PlanRoute[] {
+  const finder = createRouteFinder(readPlanGeometry(svgText))
+  if (!finder) return []
+  return units.flatMap(unit => {
+    const points = finder(unit.shapeId)
+    return points ? [{ unitId: unit.id, points, length: routeLength(points) }] : []
+  })
+}
@@ -15,16 +15,49 @@ export interface RawStorageUnit {
   status: UnitStatus
   type: string
   price: number
-  dimensions?: string
+  /** "2x3", "6" o directamente los m² como número */
+  dimensions?: string | number
   width?: number
   height?: number
   length?: number
   area?: number
+  attributes?: UnitAttributes
 }
 
-export interface PlanResponse {
+/** Características del trastero; el backend envía solo las que conoce */
+export interface UnitAttributes {
+  /** Nivel del edificio: 0 planta baja, negativos sótanos */
+  floor?: number
+  /** Altura libre en metros */
+  ceilingHeight?: number
+  /** Ancho de la puerta en metros */
+  doorWidth?: number
+  /** Se puede llegar en coche o furgoneta hasta la puerta */
+  vehicleAccess?: boolean
+  climateControl?: boolean
+  /** Acceso a pie de calle, sin escaleras ni montacargas */
+  groundFloor?: boolean
+  powerSocket?: boolean
+  lighting?: boolean
+}
+
+/** Planta (o edificio) de un centro con varias: cada una tiene su propio SVG */
+export interface RawPlanFloor {
+  id: string
+  /** Nombre visible: "Planta 1", "Sótano", "Nave B"… */
+  name: string
   svgUrl: string
   storageUnits: RawStorageUnit[]
+}
+
+/**
+ * Centros de una sola planta: `svgUrl` + `storageUnits`.
+ * Centros con varias: `floors`, en el orden en que se muestran.
+ */
+export interface PlanResponse {
+  svgUrl?: string
+  storageUnits?: RawStorageUnit[]
+  floors?: RawPlanFloor[]
   billingMode?: BillingMode
   requireDniUpload?: boolean
 }
@@ -40,6 +73,18 @@ export interface StorageUnit {
   price: number
   dimensions: number
   dimensionsLabel: string
+  /** Planta a la que pertenece (en centros de una sola planta, la única) */
+  floorId: string
+  /** Solo si el backend nombra las plantas */
+  floorName?: string
+  attributes?: UnitAttributes
+}
+
+/** Planta del plano ya resuelta; sus trasteros son los que tienen su `floorId` */
+export interface PlanFloor {
+  id: string
+  name: string
+  svgUrl: string
 }
 
 // ─── Reservas (API pública simple) ───────────────────────────────────
@@ -64,11 +109,45 @@ export interface ReservationSuccess {
 /** Modalidad de cobro mensual configurada por el propietario en el CRM */
 export type BillingMode = 'SAME_DAY' | 'FIRST_OF_MONTH' | 'BOTH'
 
+/** Texto que se pinta sobre cada trastero en el plano */
+export type PlanLabelMode = 'none' | 'number' | 'size' | 'price'
+
+/** Colores del plano por estado; lo que falte usa los colores por defecto */
+export interface PlanPalette {
+  available?: string
+  selected?: string
+  occupied?: string
+  filtered?: string
+}
+
+/** light / dark fijos; auto sigue la preferencia del sistema */
+export type ColorScheme = 'light' | 'dark' | 'auto'
+
+/** Marca del tenant en el wizard. Todo es opcional */
+export interface TenantTheme {
+  /** Color principal (botones, stepper, selección). Cualquier color CSS */
+  primaryColor?: string
+  planColors?: PlanPalette
+  /** Logo en la cabecera del wizard (URL absoluta o ruta desde la raíz) */
+  logoUrl?: string
+  fontFamily?: string
+  /** Radio de `rounded-lg` en px; el resto de radios se escala a partir de él */
+  borderRadius?: number
+  colorScheme?: ColorScheme
+}
+
 /** Configuración pública del tenant para el wizard de reservas */
 export interface TenantSettings {
   name: string
   billingMode: BillingMode
   requireDniUpload: boolean
+  /** Minutos que se bloquean los trasteros seleccionados al salir del paso 2 */
+  holdMinutes?: number
+  /** Etiquetas sobre el plano (número, tamaño o precio). Por defecto, ninguna */
+  planLabels?: PlanLabelMode
+  /** Tramas en el plano para daltónicos por defecto; el visitante puede cambiarlo */
+  planPatterns?: boolean
+  theme?: TenantTheme
 }
 
 // ─── Wizard ───────────────────────────────────────────────────────────
@@ -146,6 +225,8 @@ export interface ConfirmFullReservationPayload {
   dniPhotoPath?: string
   promotionId?: string
   extras?: SelectedExtra[]
+  /** Bloqueo temporal de los trasteros; el backend lo consume al confirmar */
+  holdId?: string
 }
 
 // ─── Extras configurables ─────────────────────────────────────────
@@ -193,6 +274,52 @@ export interface ConfirmFullReservationResponse {
   portalCredentials?: PortalCredentials
 }
 
+// ─── Bloqueo temporal de trasteros ────────────────────────────────
+
+export interface CreateHoldPayload {
+  tenantSlug: string
+  sessionId: string
+  storageUnitIds: string[]
+  durationMinutes: number
+}
+
+/** Bloqueo activo: mientras no caduque, otros visitantes ven los trasteros como RESERVED */
+export interface UnitHold {
+  holdId: string
+  storageUnitIds: string[]
+  /** ISO 8601 */
+  expiresAt: string
+}
+
+// ─── Confirmación por lotes ───────────────────────────────────────
+
+/** Trastero incluido en una confirmación por lotes */
+export interface BatchReservationUnit {
+  storageUnitId: string
+  monthlyPrice: number
+  /** Clave por sesión del wizard y trastero; evita contratos duplicados al reintentar */
+  idempotencyKey?: string
+}
+
+/** Confirma varios trasteros en una sola llamada: el backend reserva todos o ninguno. */
+export interface ConfirmReservationBatchPayload
+  extends Omit<ConfirmFullReservationPayload, 'storageUnitId' | 'monthlyPrice'> {
+  units: BatchReservationUnit[]
+}
+
+export interface BatchReservationContract {
+  storageUnitId: string
+  contractId: string
+}
+
+export interface ConfirmReservationBatchResponse {
+  success: boolean
+  message: string
+  customerId?: string
+  contracts: BatchReservationContract[]
+  portalCredentials?: PortalCredentials
+}
+
 export interface UploadDniPhotoResponse {
   success: boolean
   filePath: string
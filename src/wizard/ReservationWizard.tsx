@@ -1,4 +1,4 @@
-import { useMemo, useEffect } from 'react'
+import { useEffect } from 'react'
 import { WizardProvider, useWizard } from './WizardContext'
 import { Stepper } from './components/Stepper'
 import { StartModeStep } from './steps/StartModeStep'
@@ -7,26 +7,30 @@ import { CustomerFormStep } from './steps/CustomerFormStep'
 import { ContractStep } from './steps/ContractStep'
 import { PaymentStep } from './steps/PaymentStep'
 import { SummaryStep } from './steps/SummaryStep'
-import { getTenantSettings, getTenantExtras } from '../services/api'
-
-function readTenant(): string {
-  return new URLSearchParams(window.location.search).get('tenant') ?? 'maxibox'
-}
+import { useUnitHold } from './useUnitHold'
+import { useTenantTheme } from './useTenantTheme'
+import { useApiClient } from '../services/apiClientContext'
+import type { ApiClient } from '../services/api'
 
 // ─── Inner content (has access to context) ───────────────────────────
 
 function WizardContent() {
   const { state, dispatch } = useWizard()
+  const api = useApiClient()
+  useUnitHold()
+  const theme = state.tenantSettings?.theme
+  const { style: themeStyle, dark } = useTenantTheme(theme)
 
   // Cargar configuración del tenant y extras al montar el wizard
   useEffect(() => {
-    let cancelled = false
+    const controller = new AbortController()
+    const { signal } = controller
 
     Promise.allSettled([
-      getTenantSettings(state.tenant),
-      getTenantExtras(state.tenant),
+      api.getTenantSettings({ signal }),
+      api.getTenantExtras({ signal }),
     ]).then(([settingsResult, extrasResult]) => {
-      if (cancelled) return
+      if (signal.aborted) return
       if (settingsResult.status === 'fulfilled') {
         dispatch({ type: 'SET_TENANT_SETTINGS', settings: settingsResult.value })
         dispatch({ type: 'APPLY_BILLING_MODE' })
@@ -40,9 +44,8 @@ function WizardContent() {
       }
     })
 
-    return () => { cancelled = true }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state.tenant])
+    return () => controller.abort()
+  }, [api, dispatch])
 
   // Scroll to top on each step change
   useEffect(() => {
@@ -61,8 +64,14 @@ function WizardContent() {
   })()
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Stepper currentStep={state.step} />
+    <div className="reserva-theme min-h-screen bg-gray-50" style={themeStyle} data-theme={dark ? 'dark' : 'light'}>
+      <Stepper
+        currentStep={state.step}
+        logoUrl={theme?.logoUrl}
+        tenantName={state.tenantSettings?.name}
+        holdExpiresAt={state.hold?.expiresAt}
+        holdExpired={state.holdExpired && !state.confirmed}
+      />
       <div key={state.step} className="wizard-step-enter">
         {stepEl}
       </div>
@@ -72,10 +81,10 @@ function WizardContent() {
 
 // ─── Root wrapper ─────────────────────────────────────────────────────
 
-export function ReservationWizard() {
-  const tenant = useMemo(readTenant, [])
+/** Sin `client` usa el del ApiClientContext (ver App.tsx). */
+export function ReservationWizard({ client }: { client?: ApiClient }) {
   return (
-    <WizardProvider tenant={tenant}>
+    <WizardProvider client={client}>
       <WizardContent />
     </WizardProvider>
   )
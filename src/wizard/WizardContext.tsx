@@ -8,12 +8,19 @@ import type {
   TenantExtrasResponse,
   SelectedExtra,
   PortalCredentials,
+  UnitHold,
 } from '../types'
+import type { ApiFieldErrors, ApiUnitFailure } from '../services/apiError'
+import type { ApiClient } from '../services/api'
+import { ApiClientContext } from '../services/apiClientContext'
+import { createSessionId } from './utils'
 
 // ─── State ────────────────────────────────────────────────────────────
 
 export interface WizardState {
   tenant: string
+  /** Sesión del wizard; se renueva en RESET. Base de las claves de idempotencia */
+  sessionId: string
   step: 1 | 2 | 3 | 4 | 5 | 6
   startMode: StartMode | null
   selectedUnits: StorageUnit[]
@@ -38,6 +45,14 @@ export interface WizardState {
   selectedExtras: SelectedExtra[]
   /** Credenciales del portal generadas tras confirmar la reserva */
   portalCredentials: PortalCredentials | null
+  /** Errores por campo devueltos por el backend; el paso de datos los muestra en el formulario */
+  customerFieldErrors: ApiFieldErrors | null
+  /** Trasteros rechazados en la última confirmación (pantalla de recuperación) */
+  failedUnits: ApiUnitFailure[]
+  /** Bloqueo temporal de los trasteros seleccionados (se crea al salir del paso 2) */
+  hold: UnitHold | null
+  /** El bloqueo caducó sin confirmar; los trasteros pueden haberse perdido */
+  holdExpired: boolean
 }
 
 // ─── Actions ──────────────────────────────────────────────────────────
@@ -49,6 +64,8 @@ type WizardAction =
   | { type: 'SET_START_MODE'; mode: StartMode }
   | { type: 'TOGGLE_UNIT'; unit: StorageUnit }
   | { type: 'CLEAR_UNITS' }
+  /** Quita de la selección trasteros que han dejado de estar disponibles */
+  | { type: 'DROP_UNITS'; unitIds: string[] }
   | { type: 'SET_CUSTOMER'; customer: CustomerData }
   | { type: 'SET_SIGNATURE'; signature: string }
   | { type: 'SET_PAYMENT_METHOD'; method: PaymentMethod }
@@ -68,12 +85,20 @@ type WizardAction =
   | { type: 'SET_SELECTED_EXTRAS'; extras: SelectedExtra[] }
   | { type: 'TOGGLE_EXTRA'; extra: SelectedExtra }
   | { type: 'SET_PORTAL_CREDENTIALS'; credentials: PortalCredentials }
+  | { type: 'SET_CUSTOMER_FIELD_ERRORS'; errors: ApiFieldErrors | null }
+  | { type: 'SET_FAILED_UNITS'; failures: ApiUnitFailure[] }
+  /** Sustituye un trastero rechazado por otro similar disponible */
+  | { type: 'REPLACE_UNIT'; unitId: string; unit: StorageUnit }
+  | { type: 'SET_HOLD'; hold: UnitHold }
+  | { type: 'CLEAR_HOLD' }
+  | { type: 'HOLD_EXPIRED' }
 
 // ─── Reducer ──────────────────────────────────────────────────────────
 
 function createInitialState(tenant: string): WizardState {
   return {
     tenant,
+    sessionId: createSessionId(),
     step: 1,
     startMode: null,
     selectedUnits: [],
@@ -89,6 +114,10 @@ function createInitialState(tenant: string): WizardState {
     tenantExtras: null,
     selectedExtras: [],
     portalCredentials: null,
+    customerFieldErrors: null,
+    failedUnits: [],
+    hold: null,
+    holdExpired: false,
   }
 }
 
@@ -109,12 +138,18 @@ function reducer(state: WizardState, action: WizardAction): WizardState {
         selectedUnits: already
           ? state.selectedUnits.filter(u => u.id !== action.unit.id)
           : [...state.selectedUnits, action.unit],
+        failedUnits: state.failedUnits.filter(f => f.storageUnitId !== action.unit.id),
       }
     }
     case 'CLEAR_UNITS':
       return { ...state, selectedUnits: [] }
+    case 'DROP_UNITS':
+      return {
+        ...state,
+        selectedUnits: state.selectedUnits.filter(u => !action.unitIds.includes(u.id)),
+      }
     case 'SET_CUSTOMER':
-      return { ...state, customer: action.customer }
+      return { ...state, customer: action.customer, customerFieldErrors: null }
     case 'SET_SIGNATURE':
       return { ...state, signature: action.signature }
     case 'SET_PAYMENT_METHOD':
@@ -122,7 +157,8 @@ function reducer(state: WizardState, action: WizardAction): WizardState {
     case 'SET_PROMOTION_ID':
       return { ...state, promotionId: action.id }
     case 'CONFIRM':
-      return { ...state, confirmed: true }
+      // El backend consume el bloqueo al confirmar; no hay que liberarlo
+      return { ...state, confirmed: true, hold: null }
     case 'RESET':
       return createInitialState(state.tenant)
     case 'SET_TENANT_SETTINGS':
@@ -154,6 +190,24 @@ function reducer(state: WizardState, action: WizardAction): WizardState {
     }
     case 'SET_PORTAL_CREDENTIALS':
       return { ...state, portalCredentials: action.credentials }
+    case 'SET_CUSTOMER_FIELD_ERRORS':
+      return { ...state, customerFieldErrors: action.errors }
+    case 'SET_FAILED_UNITS':
+      return { ...state, failedUnits: action.failures }
+    case 'SET_HOLD':
+      return { ...state, hold: action.hold, holdExpired: false }
+    case 'CLEAR_HOLD':
+      return { ...state, hold: null }
+    case 'HOLD_EXPIRED':
+      return { ...state, hold: null, holdExpired: true }
+    case 'REPLACE_UNIT': {
+      if (state.selectedUnits.some(u => u.id === action.unit.id)) return state
+      return {
+        ...state,
+        selectedUnits: state.selectedUnits.map(u => (u.id === action.unitId ? action.unit : u)),
+        failedUnits: state.failedUnits.filter(f => f.storageUnitId !== action.unitId),
+      }
+    }
     default:
       return state
   }
@@ -168,18 +222,27 @@ interface WizardContextValue {
 
 const WizardContext = createContext<WizardContextValue | null>(null)
 
+/**
+ * El tenant del wizard es el del cliente de la API: el recibido en `client`
+ * o, si no se pasa, el del ApiClientContext superior.
+ */
 export function WizardProvider({
-  tenant,
+  client,
   children,
 }: {
-  tenant: string
+  client?: ApiClient
   children: ReactNode
 }) {
-  const [state, dispatch] = useReducer(reducer, tenant, createInitialState)
+  const inherited = useContext(ApiClientContext)
+  const api = client ?? inherited
+  const [state, dispatch] = useReducer(reducer, api?.tenantSlug ?? '', createInitialState)
+  if (!api) throw new Error('WizardProvider needs an ApiClient (client prop or ApiClientContext)')
   return (
-    <WizardContext.Provider value={{ state, dispatch }}>
-      {children}
-    </WizardContext.Provider>
+    <ApiClientContext.Provider value={api}>
+      <WizardContext.Provider value={{ state, dispatch }}>
+        {children}
+      </WizardContext.Provider>
+    </ApiClientContext.Provider>
   )
 }
 
@@ -1,4 +1,5 @@
 import { formatEuros, calcProportionalPayment } from '../utils'
+import { describeUnitAttributes } from '../../components/unitAttributes'
 import type { StorageUnit, PaymentMethod, StartMode, CustomerData } from '../../types'
 
 interface PriceSummaryCardProps {
@@ -42,15 +43,24 @@ export function PriceSummaryCard({
           <p className="text-sm text-gray-400 italic">Ningún trastero seleccionado</p>
         ) : (
           <div className="space-y-2">
-            {units.map(u => (
-              <div key={u.id} className="flex justify-between items-center text-sm">
-                <span className="text-gray-600">
-                  Trastero #{u.number}
-                  {!compact && <span className="text-gray-400"> · {u.dimensionsLabel}</span>}
-                </span>
-                <span className="font-medium text-gray-900">{formatEuros(u.price)}/mes</span>
-              </div>
-            ))}
+            {units.map(u => {
+              const attributes = compact ? [] : describeUnitAttributes(u.attributes)
+              return (
+                <div key={u.id} className="text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">
+                      Trastero #{u.number}
+                      {u.floorName && <span className="text-gray-400"> · {u.floorName}</span>}
+                      {!compact && <span className="text-gray-400"> · {u.dimensionsLabel}</span>}
+                    </span>
+                    <span className="font-medium text-gray-900">{formatEuros(u.price)}/mes</span>
+                  </div>
+                  {attributes.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-0.5">{attributes.join(' · ')}</p>
+                  )}
+                </div>
+              )
+            })}
           </div>
         )}
 
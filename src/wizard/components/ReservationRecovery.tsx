@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '../../components/Button'
+import { useApiClient } from '../../services/apiClientContext'
+import { isAbortError } from '../../services/api'
+import { findSimilarUnits, formatEuros } from '../utils'
+import type { ApiUnitFailure } from '../../services/apiError'
+import type { StorageUnit } from '../../types'
+
+interface ReservationRecoveryProps {
+  failures: ApiUnitFailure[]
+  selectedUnits: StorageUnit[]
+  retrying: boolean
+  error?: string | null
+  onRetry: () => void
+  onReplace: (unitId: string, unit: StorageUnit) => void
+  onRemove: (unit: StorageUnit) => void
+}
+
+function failureReason(failure: ApiUnitFailure): string {
+  if (failure.code === 'UNIT_NOT_AVAILABLE') return 'Otra persona lo acaba de reservar'
+  return failure.message || 'No se pudo reservar'
+}
+
+/**
+ * Pantalla de recuperación tras una confirmación fallida: lista los
+ * trasteros rechazados y permite cambiarlos por otros similares, quitarlos
+ * o reintentar. El lote es atómico: hasta que se confirma no hay nada reservado.
+ */
+export function ReservationRecovery({
+  failures,
+  selectedUnits,
+  retrying,
+  error,
+  onRetry,
+  onReplace,
+  onRemove,
+}: ReservationRecoveryProps) {
+  const api = useApiClient()
+  const [planUnits, setPlanUnits]   = useState<StorageUnit[]>([])
+  const [loadingAlt, setLoadingAlt] = useState(true)
+
+  // Plano actualizado para proponer alternativas con el estado real
+  useEffect(() => {
+    const controller = new AbortController()
+    api.getPlan({ requireSvgUrl: false, fresh: true, signal: controller.signal })
+      .then(data => setPlanUnits(data.storageUnits))
+      .catch(err => { if (!isAbortError(err)) console.warn('[Recovery] No se pudieron cargar alternativas:', err) })
+      .finally(() => { if (!controller.signal.aborted) setLoadingAlt(false) })
+    return () => controller.abort()
+  }, [api])
+
+  const failedRows = useMemo(() => {
+    const excluded = new Set(selectedUnits.map(u => u.id))
+    const rows: { unit: StorageUnit; failure: ApiUnitFailure; alternatives: StorageUnit[] }[] = []
+    for (const failure of failures) {
+      const unit = selectedUnits.find(u => u.id === failure.storageUnitId)
+      if (!unit) continue
+      const alternatives = findSimilarUnits(unit, planUnits, excluded)
+      alternatives.forEach(a => excluded.add(a.id))
+      rows.push({ unit, failure, alternatives })
+    }
+    return rows
+  }, [failures, selectedUnits, planUnits])
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div className="space-y-1">
+        <h2 className="text-2xl font-semibold text-gray-900">No hemos podido completar la reserva</h2>
+        <p className="text-gray-500 text-sm">
+          No se ha reservado ningún trastero todavía. Resuelve los siguientes y vuelve a intentarlo.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {failedRows.map(({ unit, failure, alternatives }) => (
+          <div key={unit.id} className="bg-white rounded-3xl border border-red-200 shadow-sm p-5 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-bold text-gray-900">Trastero #{unit.number}</p>
+                <p className="text-xs text-gray-500">{unit.floorName && `${unit.floorName} · `}{unit.dimensionsLabel} · {formatEuros(unit.price)}/mes</p>
+                <p className="text-xs text-red-600 mt-1">{failureReason(failure)}</p>
+              </div>
+              {selectedUnits.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(unit)}
+                  disabled={retrying}
+                  className="text-xs text-gray-400 hover:text-red-500 transition-colors shrink-0"
+                >
+                  Quitar
+                </button>
+              )}
+            </div>
+
+            {failure.code === 'UNIT_NOT_AVAILABLE' && (
+              <div className="pt-2 border-t border-gray-100">
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Alternativas similares</p>
+                {loadingAlt ? (
+                  <p className="text-xs text-gray-400">Buscando trasteros disponibles…</p>
+                ) : alternatives.length === 0 ? (
+                  <p className="text-xs text-gray-400">No quedan trasteros similares disponibles.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {alternatives.map(alt => (
+                      <button
+                        key={alt.id}
+                        type="button"
+                        onClick={() => onReplace(unit.id, alt)}
+                        disabled={retrying}
+                        className="px-3 py-2 rounded-xl border border-gray-200 text-left hover:border-blue-400 hover:bg-blue-50 transition-colors"
+                      >
+                        <span className="block text-sm font-semibold text-gray-800">Cambiar por #{alt.number}</span>
+                        <span className="block text-xs text-gray-500">{alt.dimensionsLabel} · {formatEuros(alt.price)}/mes</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-2xl p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={onRetry}
+          loading={retrying}
+          disabled={selectedUnits.length === 0}
+          className="!px-10 !py-3.5 !rounded-2xl !text-base !font-bold"
+        >
+          {failedRows.length > 0 ? 'Reintentar reserva' : 'Confirmar reserva'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react'
 import type { WizardState } from '../WizardContext'
 
 const STEPS = [
@@ -11,56 +12,106 @@ const STEPS = [
 
 interface StepperProps {
   currentStep: WizardState['step']
+  /** Fin del bloqueo temporal de los trasteros (ISO 8601) */
+  holdExpiresAt?: string | null
+  holdExpired?: boolean
+  /** Logo del tenant, a la izquierda de los pasos */
+  logoUrl?: string
+  tenantName?: string
 }
 
-export function Stepper({ currentStep }: StepperProps) {
+export function Stepper({ currentStep, holdExpiresAt, holdExpired = false, logoUrl, tenantName }: StepperProps) {
   return (
     <nav className="w-full bg-white/90 backdrop-blur-md border-b border-gray-100 sticky top-0 z-30">
       <div className="max-w-4xl mx-auto px-4 py-3">
-        <ol className="flex items-center">
-          {STEPS.map((step, i) => {
-            const isCompleted = currentStep > step.id
-            const isCurrent   = currentStep === step.id
-            return (
-              <li key={step.id} className="flex items-center flex-1 min-w-0">
-                <div className="flex flex-col items-center shrink-0">
-                  <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-300 ${
-                      isCompleted
-                        ? 'bg-blue-600 text-white'
-                        : isCurrent
-                          ? 'bg-blue-600 text-white ring-4 ring-blue-100'
-                          : 'bg-gray-100 text-gray-400'
-                    }`}
-                  >
-                    {isCompleted ? (
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                      </svg>
-                    ) : (
-                      step.id
-                    )}
+        <div className="flex items-center gap-4">
+          {logoUrl && (
+            <img src={logoUrl} alt={tenantName ?? ''} className="h-8 max-w-[7rem] object-contain shrink-0" />
+          )}
+          <ol className="flex items-center flex-1 min-w-0">
+            {STEPS.map((step, i) => {
+              const isCompleted = currentStep > step.id
+              const isCurrent   = currentStep === step.id
+              return (
+                <li key={step.id} className="flex items-center flex-1 min-w-0">
+                  <div className="flex flex-col items-center shrink-0">
+                    <div
+                      className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-300 ${
+                        isCompleted
+                          ? 'bg-blue-600 text-white'
+                          : isCurrent
+                            ? 'bg-blue-600 text-white ring-4 ring-blue-100'
+                            : 'bg-gray-100 text-gray-400'
+                      }`}
+                    >
+                      {isCompleted ? (
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                        </svg>
+                      ) : (
+                        step.id
+                      )}
+                    </div>
+                    <span
+                      className={`text-xs mt-1 font-medium transition-colors duration-300 hidden sm:block truncate max-w-[5rem] text-center ${
+                        isCurrent ? 'text-blue-600' : isCompleted ? 'text-gray-600' : 'text-gray-400'
+                      }`}
+                    >
+                      {step.label}
+                    </span>
                   </div>
-                  <span
-                    className={`text-xs mt-1 font-medium transition-colors duration-300 hidden sm:block truncate max-w-[5rem] text-center ${
-                      isCurrent ? 'text-blue-600' : isCompleted ? 'text-gray-600' : 'text-gray-400'
-                    }`}
-                  >
-                    {step.label}
-                  </span>
-                </div>
-                {i < STEPS.length - 1 && (
-                  <div
-                    className={`flex-1 h-0.5 mx-2 sm:mx-3 transition-all duration-500 rounded-full ${
-                      currentStep > step.id ? 'bg-blue-600' : 'bg-gray-200'
-                    }`}
-                  />
-                )}
-              </li>
-            )
-          })}
-        </ol>
+                  {i < STEPS.length - 1 && (
+                    <div
+                      className={`flex-1 h-0.5 mx-2 sm:mx-3 transition-all duration-500 rounded-full ${
+                        currentStep > step.id ? 'bg-blue-600' : 'bg-gray-200'
+                      }`}
+                    />
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+        {(holdExpiresAt || holdExpired) && (
+          <HoldCountdown expiresAt={holdExpiresAt ?? null} expired={holdExpired} />
+        )}
       </div>
     </nav>
   )
 }
+
+// ─── Cuenta atrás del bloqueo ─────────────────────────────────────────
+
+function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(total / 60)
+  const seconds = total % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+function HoldCountdown({ expiresAt, expired }: { expiresAt: string | null; expired: boolean }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!expiresAt) return
+    const id = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(id)
+  }, [expiresAt])
+
+  if (expired || !expiresAt) {
+    return (
+      <p role="status" className="mt-2 text-center text-xs font-medium text-red-600">
+        El bloqueo de tus trasteros ha caducado. Si otra persona los reserva antes, te avisaremos al confirmar.
+      </p>
+    )
+  }
+
+  const remaining = Date.parse(expiresAt) - now
+  const urgent = remaining <= 2 * 60_000
+  return (
+    <p role="timer" className={`mt-2 text-center text-xs font-medium ${urgent ? 'text-amber-600' : 'text-gray-500'}`}>
+      Trasteros reservados para ti durante{' '}
+      <span className="font-bold tabular-nums">{formatRemaining(remaining)}</span>
+    </p>
+  )
+}
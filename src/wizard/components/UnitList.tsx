@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { formatEuros } from '../utils'
+import { describeUnitAttributes, matchesAttributeFilters, type AttributeFilter } from '../../components/unitAttributes'
+import { UNIT_STATUS } from '../../components/unitStatusLabels'
+import type { PlanFloor, StorageUnit } from '../../types'
+
+interface UnitListProps {
+  /** Trasteros de todas las plantas */
+  units: StorageUnit[]
+  floors: PlanFloor[]
+  /** 'list' → tabla; 'grid' → tarjetas */
+  layout: 'list' | 'grid'
+  selectedUnits: StorageUnit[]
+  filterByDimensions: number | null
+  maxPrice: number | null
+  /** Chips de características activos */
+  attributeFilters: AttributeFilter[]
+  onToggle: (unit: StorageUnit) => void
+  /** Trastero elegido en el buscador: se muestra aunque no pase los filtros y se lleva a la vista */
+  locate?: { unitId: string; nonce: number } | null
+}
+
+type SortKey = 'number' | 'floor' | 'dimensions' | 'price' | 'pricePerM2' | 'status'
+
+const SORT_LABELS: Record<SortKey, string> = {
+  number:     'Número',
+  floor:      'Planta',
+  dimensions: 'Tamaño',
+  price:      'Precio',
+  pricePerM2: '€/m²',
+  status:     'Estado',
+}
+
+/** Filas que se pintan de entrada; con 2.000 trasteros la tabla entera pesa */
+const PAGE_SIZE = 60
+
+const pricePerM2 = (unit: StorageUnit) => unit.dimensions > 0 ? unit.price / unit.dimensions : Infinity
+
+/**
+ * Trasteros en tabla o en tarjetas, como alternativa al plano (y para quien
+ * usa lector de pantalla). Aplica los mismos filtros que el plano; los
+ * seleccionados se ven siempre, para poder quitarlos.
+ */
+export function UnitList({
+  units,
+  floors,
+  layout,
+  selectedUnits,
+  filterByDimensions,
+  maxPrice,
+  attributeFilters,
+  onToggle,
+  locate = null,
+}: UnitListProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [sortKey, setSortKey]           = useState<SortKey>('number')
+  const [descending, setDescending]     = useState(false)
+  const [onlyAvailable, setOnlyAvailable] = useState(true)
+  const [floorId, setFloorId]           = useState<string | null>(null)
+  const [limit, setLimit]               = useState(PAGE_SIZE)
+
+  const multiFloor = floors.length > 1
+  const selectedIds = useMemo(() => new Set(selectedUnits.map(u => u.id)), [selectedUnits])
+  const floorOrder = useMemo(() => new Map(floors.map((f, i) => [f.id, i])), [floors])
+  const floorName = (unit: StorageUnit) => floors.find(f => f.id === unit.floorId)?.name ?? ''
+
+  const rows = useMemo(() => {
+    const value = (u: StorageUnit): number => {
+      switch (sortKey) {
+        case 'number':     return u.number
+        case 'floor':      return floorOrder.get(u.floorId) ?? 0
+        case 'dimensions': return u.dimensions
+        case 'price':      return u.price
+        case 'pricePerM2': return pricePerM2(u)
+        case 'status':     return UNIT_STATUS[u.status].order
+      }
+    }
+    const sign = descending ? -1 : 1
+    return units
+      .filter(u => selectedIds.has(u.id) || u.id === locate?.unitId || (
+        (!onlyAvailable || u.status === 'AVAILABLE')
+        && (floorId === null || u.floorId === floorId)
+        && (filterByDimensions === null || u.dimensions === filterByDimensions)
+        && (maxPrice === null || u.price <= maxPrice)
+        && matchesAttributeFilters(u, attributeFilters)
+      ))
+      .sort((a, b) => sign * (value(a) - value(b)) || a.number - b.number)
+  }, [units, selectedIds, locate, onlyAvailable, floorId, filterByDimensions, maxPrice, attributeFilters, sortKey, descending, floorOrder])
+
+  // El trastero buscado siempre entra en lo que se pinta
+  const locatedIndex = locate ? rows.findIndex(u => u.id === locate.unitId) : -1
+  const shown = rows.slice(0, Math.max(limit, locatedIndex + 1))
+
+  useEffect(() => {
+    if (!locate) return
+    const el = containerRef.current?.querySelector<HTMLElement>(`[data-unit-row="${CSS.escape(locate.unitId)}"]`)
+    if (!el) return
+    const reduced = window.matchMedia('(prefers-reduced-motion: reduce)').matches
+    el.scrollIntoView({ block: 'center', behavior: reduced ? 'auto' : 'smooth' })
+    if (reduced) return
+    const flash = el.animate([{ opacity: 1 }, { opacity: 0.3 }, { opacity: 1 }], { duration: 450, iterations: 3 })
+    return () => flash.cancel()
+  }, [locate])
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setDescending(d => !d)
+    else { setSortKey(key); setDescending(false) }
+  }
+
+  const columns: SortKey[] = multiFloor
+    ? ['number', 'floor', 'dimensions', 'price', 'pricePerM2', 'status']
+    : ['number', 'dimensions', 'price', 'pricePerM2', 'status']
+
+  const cell = (unit: StorageUnit, key: SortKey): string => {
+    switch (key) {
+      case 'number':     return `#${unit.number}`
+      case 'floor':      return floorName(unit)
+      case 'dimensions': return `${unit.dimensionsLabel} (${unit.dimensions} m²)`
+      case 'price':      return `${formatEuros(unit.price)}/mes`
+      case 'pricePerM2': return unit.dimensions > 0 ? formatEuros(pricePerM2(unit)) : '—'
+      case 'status':     return UNIT_STATUS[unit.status].label
+    }
+  }
+
+  const toggleButton = (unit: StorageUnit, selected: boolean, className: string) => (
+    <button
+      type="button"
+      onClick={() => onToggle(unit)}
+      disabled={!selected && unit.status !== 'AVAILABLE'}
+      aria-pressed={selected}
+      aria-label={`${selected ? 'Quitar' : 'Seleccionar'} trastero ${unit.number}`}
+      className={`rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        selected
+          ? 'bg-blue-600 text-white hover:bg-blue-700'
+          : 'border border-gray-200 bg-white text-gray-700 hover:border-blue-300 hover:text-blue-600'
+      } ${className}`}
+    >
+      {selected ? '✓ Seleccionado' : 'Seleccionar'}
+    </button>
+  )
+
+  return (
+    <div ref={containerRef} className="flex flex-col gap-3">
+
+      {/* Barra: orden y filtros propios de la lista */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <label className="flex items-center gap-1.5 text-gray-600">
+          <span className="text-xs">Ordenar por</span>
+          <select
+            value={sortKey}
+            onChange={e => { setSortKey(e.target.value as SortKey); setDescending(false) }}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {columns.map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => setDescending(d => !d)}
+          className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 hover:border-blue-300"
+        >
+          {descending ? '↓ Descendente' : '↑ Ascendente'}
+        </button>
+        {multiFloor && (
+          <select
+            value={floorId ?? ''}
+            onChange={e => setFloorId(e.target.value || null)}
+            aria-label="Planta"
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            <option value="">Todas las plantas</option>
+            {floors.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer select-none">
+          <input type="checkbox" checked={onlyAvailable} onChange={e => setOnlyAvailable(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-200" />
+          Solo disponibles
+        </label>
+        <span className="ml-auto text-xs text-gray-400" aria-live="polite">
+          {rows.length === 1 ? '1 trastero' : `${rows.length} trasteros`}
+        </span>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="py-8 text-center text-sm text-gray-500">Ningún trastero cumple los filtros.</p>
+      )}
+
+      {rows.length > 0 && layout === 'list' && (
+        <div className="overflow-x-auto rounded-2xl border border-gray-100">
+          <table className="w-full text-sm">
+            <caption className="sr-only">
+              Trasteros, ordenados por {SORT_LABELS[sortKey].toLowerCase()} ({descending ? 'descendente' : 'ascendente'})
+            </caption>
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                {columns.map(key => (
+                  <th key={key} scope="col"
+                    aria-sort={sortKey === key ? (descending ? 'descending' : 'ascending') : 'none'}
+                    className="px-3 py-2 text-left font-semibold whitespace-nowrap"
+                  >
+                    <button type="button" onClick={() => sortBy(key)} className="hover:text-gray-900">
+                      {SORT_LABELS[key]}
+                      <span aria-hidden="true" className="ml-1">
+                        {sortKey === key ? (descending ? '↓' : '↑') : ''}
+                      </span>
+                    </button>
+                  </th>
+                ))}
+                <th scope="col" className="px-3 py-2"><span className="sr-only">Selección</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(unit => {
+                const selected = selectedIds.has(unit.id)
+                return (
+                  <tr key={unit.id} data-unit-row={unit.id}
+                    className={`border-t border-gray-100 ${selected ? 'bg-blue-50' : ''}`}>
+                    {columns.map(key => key === 'number' ? (
+                      <th key={key} scope="row" className="px-3 py-2 text-left font-semibold text-gray-900">
+                        {cell(unit, key)}
+                        {unit.attributes && (
+                          <span className="block text-xs font-normal text-gray-400">
+                            {describeUnitAttributes(unit.attributes).join(' · ')}
+                          </span>
+                        )}
+                      </th>
+                    ) : key === 'status' ? (
+                      <td key={key} className="px-3 py-2">
+                        <span className={`rounded-md px-1.5 py-0.5 text-[11px] font-medium ${UNIT_STATUS[unit.status].className}`}>
+                          {cell(unit, key)}
+                        </span>
+                      </td>
+                    ) : (
+                      <td key={key} className="px-3 py-2 text-gray-700 whitespace-nowrap">{cell(unit, key)}</td>
+                    ))}
+                    <td className="px-3 py-2 text-right">{toggleButton(unit, selected, '')}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows.length > 0 && layout === 'grid' && (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-2">
+          {shown.map(unit => {
+            const selected = selectedIds.has(unit.id)
+            return (
+              <li key={unit.id} data-unit-row={unit.id}
+                className={`rounded-2xl border p-3 flex flex-col gap-2 ${
+                  selected ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900">Trastero #{unit.number}</p>
+                    {multiFloor && <p className="text-xs text-gray-500">{floorName(unit)}</p>}
+                  </div>
+                  <span className={`shrink-0 rounded-md px-1.5 py-0.5 text-[11px] font-medium ${UNIT_STATUS[unit.status].className}`}>
+                    {UNIT_STATUS[unit.status].label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700">{cell(unit, 'dimensions')}</p>
+                {unit.attributes && (
+                  <p className="text-xs text-gray-500">{describeUnitAttributes(unit.attributes).join(' · ')}</p>
+                )}
+                <p className="text-sm">
+                  <span className="font-semibold text-gray-900">{cell(unit, 'price')}</span>
+                  {unit.dimensions > 0 && (
+                    <span className="ml-2 text-xs text-gray-400">{cell(unit, 'pricePerM2')}/m²</span>
+                  )}
+                </p>
+                {toggleButton(unit, selected, 'w-full')}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {shown.length < rows.length && (
+        <button
+          type="button"
+          onClick={() => setLimit(shown.length + PAGE_SIZE)}
+          className="self-center rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:border-blue-300 hover:text-blue-600"
+        >
+          Mostrar más ({rows.length - shown.length} restantes)
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react'
+import { formatEuros } from '../utils'
+import { UNIT_STATUS } from '../../components/unitStatusLabels'
+import type { StorageUnit } from '../../types'
+
+interface UnitSearchProps {
+  /** Trasteros de todas las plantas */
+  units: StorageUnit[]
+  selectedUnits: StorageUnit[]
+  /** Centrar el trastero en el plano (cambia de planta si hace falta) */
+  onLocate: (unit: StorageUnit) => void
+  onToggle: (unit: StorageUnit) => void
+}
+
+const MAX_SUGGESTIONS = 8
+
+/**
+ * Trasteros cuyo número o shapeId empieza por el texto (o lo contiene, por
+ * detrás). Primero las coincidencias exactas, luego por número.
+ */
+function matchUnits(units: StorageUnit[], query: string): StorageUnit[] {
+  const q = query.trim().replace(/^#/, '').toLowerCase()
+  if (!q) return []
+  const rank = (u: StorageUnit): number => {
+    const number = String(u.number)
+    const shapeId = u.shapeId.toLowerCase()
+    if (number === q || shapeId === q) return 0
+    if (number.startsWith(q)) return 1
+    if (shapeId.startsWith(q)) return 2
+    if (shapeId.includes(q)) return 3
+    return -1
+  }
+  return units
+    .map(unit => ({ unit, rank: rank(unit) }))
+    .filter(m => m.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.unit.number - b.unit.number)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(m => m.unit)
+}
+
+/**
+ * Buscador de trasteros por número o código del plano (combobox accesible).
+ * Al elegir uno se muestra en el plano y aparece su ficha con el estado y,
+ * si está libre, el botón para seleccionarlo.
+ */
+export function UnitSearch({ units, selectedUnits, onLocate, onToggle }: UnitSearchProps) {
+  const listId = useId()
+  const [query, setQuery]           = useState('')
+  const [open, setOpen]             = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [resultId, setResultId]     = useState<string | null>(null)
+
+  const suggestions = useMemo(() => matchUnits(units, query), [units, query])
+  // La ficha sigue al inventario: si el trastero cambia de estado se actualiza
+  const result = resultId ? units.find(u => u.id === resultId) ?? null : null
+  const selected = !!result && selectedUnits.some(u => u.id === result.id)
+
+  const choose = (unit: StorageUnit) => {
+    setQuery(String(unit.number))
+    setOpen(false)
+    setResultId(unit.id)
+    onLocate(unit)
+  }
+
+  const onKeyDown = (ev: KeyboardEvent<HTMLInputElement>) => {
+    if (ev.key === 'ArrowDown' || ev.key === 'ArrowUp') {
+      ev.preventDefault()
+      if (!open) { setOpen(true); return }
+      if (suggestions.length === 0) return
+      const step = ev.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex(i => (i + step + suggestions.length) % suggestions.length)
+    } else if (ev.key === 'Enter') {
+      const unit = open ? suggestions[activeIndex] ?? suggestions[0] : undefined
+      if (!unit) return
+      ev.preventDefault()
+      choose(unit)
+    } else if (ev.key === 'Escape' && open) {
+      ev.preventDefault()
+      setOpen(false)
+    }
+  }
+
+  const showList = open && query.trim() !== ''
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative">
+        <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+        <input
+          type="search"
+          role="combobox"
+          aria-label="Buscar trastero por número o código"
+          aria-expanded={showList && suggestions.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={showList && suggestions[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          placeholder="Buscar trastero (nº o código)"
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); setOpen(true) }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={onKeyDown}
+          className="w-full rounded-xl border border-gray-200 pl-9 pr-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-200 focus:border-blue-400"
+        />
+        {showList && (
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label="Trasteros encontrados"
+            className="absolute z-20 mt-1 w-full max-h-72 overflow-auto rounded-xl border border-gray-200 bg-white shadow-lg py-1"
+          >
+            {suggestions.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">Ningún trastero coincide</li>
+            )}
+            {suggestions.map((unit, i) => (
+              <li
+                key={unit.id}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                // mousedown: el click llegaría después del blur que cierra la lista
+                onMouseDown={e => { e.preventDefault(); choose(unit) }}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer ${
+                  i === activeIndex ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="min-w-0 truncate">
+                  <span className="font-semibold text-gray-900">#{unit.number}</span>
+                  <span className="ml-2 text-xs text-gray-400">
+                    {unit.shapeId}{unit.floorName ? ` · ${unit.floorName}` : ''}
+                  </span>
+                </span>
+                <span className={`shrink-0 rounded-md px-1.5 py-0.5 text-[11px] font-medium ${UNIT_STATUS[unit.status].className}`}>
+                  {UNIT_STATUS[unit.status].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {result && (
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-3 flex flex-col gap-2" aria-live="polite">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-900">Trastero #{result.number}</p>
+              <p className="text-xs text-gray-500">
+                {[result.floorName, `${result.dimensionsLabel} (${result.dimensions} m²)`, `${formatEuros(result.price)}/mes`]
+                  .filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <span className={`shrink-0 rounded-md px-1.5 py-0.5 text-[11px] font-medium ${
+              selected ? 'bg-blue-50 text-blue-700' : UNIT_STATUS[result.status].className
+            }`}>
+              {selected ? 'Seleccionado' : UNIT_STATUS[result.status].label}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => onLocate(result)}
+              className="flex-1 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:border-blue-300 hover:text-blue-600 transition-colors"
+            >
+              Ver en el plano
+            </button>
+            {(result.status === 'AVAILABLE' || selected) && (
+              <button
+                type="button"
+                onClick={() => onToggle(result)}
+                className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+                  selected
+                    ? 'border border-gray-200 bg-white text-gray-700 hover:bg-gray-100'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {selected ? 'Quitar' : 'Seleccionar'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,11 +2,14 @@ import { useRef, useState, useEffect, useCallback } from 'react'
 import { useWizard } from '../WizardContext'
 import { Button } from '../../components/Button'
 import { formatEuros, formatDate, getStartDate, calcProportionalPayment, getBillingDescription } from '../utils'
+import { getRuntimeConfig } from '../../config/runtime'
+import { ROUTE_INSTRUCTIONS, rasterizeSvg, svgDataUrl } from '../../components/planRoute'
+import { describeRouteMap, usePlanRoutes, type FloorRouteMap } from '../usePlanRoutes'
 
 // ─── Contract text helpers ────────────────────────────────────────────
 
 function todayFormatted() {
-  return new Date().toLocaleDateString('es-ES', { day: 'numeric', month: 'long', year: 'numeric' })
+  return new Date().toLocaleDateString(getRuntimeConfig().locale, { day: 'numeric', month: 'long', year: 'numeric' })
 }
 
 // ─── PDF generation (lazy-loaded to keep initial bundle small) ────────
@@ -17,6 +20,7 @@ async function generateAndDownloadPdf(params: {
   selectedUnits: ReturnType<typeof useWizardParams>['selectedUnits']
   startMode: NonNullable<ReturnType<typeof useWizardParams>['startMode']>
   signatureDataUrl: string
+  routeMaps: FloorRouteMap[]
 }) {
   const { jsPDF } = await import('jspdf')
   const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' })
@@ -74,7 +78,8 @@ async function generateAndDownloadPdf(params: {
   line('El arrendador cede en régimen de alquiler los siguientes trasteros:')
   y += 2
   params.selectedUnits.forEach(u => {
-    line(`  • Trastero #${u.number} — ${u.dimensionsLabel} m² — ${formatEuros(u.price)}/mes`, 10)
+    const floor = u.floorName ? ` (${u.floorName})` : ''
+    line(`  • Trastero #${u.number}${floor} — ${u.dimensionsLabel} m² — ${formatEuros(u.price)}/mes`, 10)
   })
   y += 2
   const totalMonthly = params.selectedUnits.reduce((s, u) => s + u.price, 0)
@@ -112,6 +117,26 @@ async function generateAndDownloadPdf(params: {
   y += 4
   separator()
 
+  // ── Anexo: cómo llegar (forma parte de lo que se firma) ──
+  if (params.routeMaps.length > 0) {
+    doc.addPage()
+    y = 20
+    line('ANEXO I. CÓMO LLEGAR A TU TRASTERO', 13, true)
+    line(ROUTE_INSTRUCTIONS, 10, false, '#444444')
+    y += 2
+    for (const map of params.routeMaps) {
+      const image = await rasterizeSvg(map.svg, 1600).catch(() => null)
+      if (!image) continue
+      const h = (W * image.height) / image.width
+      if (y + h + 10 > 280) { doc.addPage(); y = 20 }
+      line(describeRouteMap(map), 10, true)
+      doc.addImage(image.dataUrl, 'PNG', L, y, W, h)
+      y += h + 6
+    }
+    y += 4
+    separator()
+  }
+
   // ── Firma ──
   line('5. FIRMA DEL ARRENDATARIO', 13, true)
   y += 3
@@ -244,6 +269,9 @@ export function ContractStep() {
   const [isGenerating, setIsGenerating]       = useState(false)
   const [showSignature, setShowSignature]     = useState(false)
 
+  // Plano con la ruta al trastero: anexo del contrato (si el plano lo permite)
+  const routeMaps = usePlanRoutes(selectedUnits)
+
   const contractRef = useRef<HTMLDivElement>(null)
   const canvasRef   = useRef<HTMLCanvasElement>(null)
 
@@ -265,7 +293,8 @@ export function ContractStep() {
 
   const handleContinue = async () => {
     const canvas = canvasRef.current
-    if (!canvas || signatureEmpty) return
+    // El anexo con la ruta forma parte del contrato: se espera a tenerlo
+    if (!canvas || signatureEmpty || routeMaps === null) return
     const dataUrl = canvas.toDataURL('image/png')
     setIsGenerating(true)
     try {
@@ -275,6 +304,7 @@ export function ContractStep() {
         selectedUnits,
         startMode: startMode!,
         signatureDataUrl: dataUrl,
+        routeMaps,
       })
     } catch (err) {
       console.error('Error generando PDF:', err)
@@ -383,7 +413,10 @@ export function ContractStep() {
                 <tbody>
                   {selectedUnits.map((u, i) => (
                     <tr key={u.id} className={i % 2 === 0 ? '' : 'bg-gray-50/50'}>
-                      <td className="px-4 py-2 font-medium">#{u.number}</td>
+                      <td className="px-4 py-2 font-medium">
+                        #{u.number}
+                        {u.floorName && <span className="ml-1.5 text-xs font-normal text-gray-500">{u.floorName}</span>}
+                      </td>
                       <td className="px-4 py-2 text-gray-600">{u.dimensionsLabel} m²</td>
                       <td className="px-4 py-2 text-right font-semibold">{formatEuros(u.price)}</td>
                     </tr>
@@ -454,6 +487,26 @@ export function ContractStep() {
             </div>
           </section>
 
+          {/* Anexo I. Cómo llegar */}
+          {routeMaps && routeMaps.length > 0 && (
+            <section>
+              <h4 className="font-semibold text-gray-900 text-base mb-3">Anexo I. Cómo llegar a tu trastero</h4>
+              <p className="mb-3">{ROUTE_INSTRUCTIONS}</p>
+              <div className="space-y-3">
+                {routeMaps.map(map => (
+                  <figure key={map.floor.id} className="space-y-1">
+                    <img
+                      src={svgDataUrl(map.svg)}
+                      alt={`Plano con la ruta desde la entrada. ${describeRouteMap(map)}`}
+                      className="w-full rounded-xl border border-gray-100"
+                    />
+                    <figcaption className="text-xs text-gray-500">{describeRouteMap(map)}</figcaption>
+                  </figure>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Firma placeholder — bottom anchor */}
           <div className="border-t-2 border-gray-200 pt-6 text-center text-gray-400 text-sm pb-4">
             <p className="font-medium text-gray-600 mb-1">Has llegado al final del contrato</p>
@@ -543,7 +596,7 @@ export function ContractStep() {
 
         <Button
           onClick={handleContinue}
-          disabled={!hasReadContract || signatureEmpty || !showSignature}
+          disabled={!hasReadContract || signatureEmpty || !showSignature || routeMaps === null}
           loading={isGenerating}
           className="!px-8 !py-3 !rounded-2xl !text-base !font-semibold"
         >
@@ -563,6 +616,11 @@ export function ContractStep() {
           Generando el contrato en PDF… se descargará automáticamente.
         </p>
       )}
+      {!isGenerating && routeMaps === null && (
+        <p className="text-center text-sm text-gray-400">
+          Preparando el anexo con el plano de acceso…
+        </p>
+      )}
     </div>
   )
 }
@@ -2,11 +2,13 @@ import { useState, useCallback, useRef } from 'react'
 import { useWizard } from '../WizardContext'
 import { Button } from '../../components/Button'
 import { PriceSummaryCard } from '../components/PriceSummaryCard'
-import { createLead, uploadDniPhoto } from '../../services/api'
+import { useApiClient } from '../../services/apiClientContext'
+import { isApiError, getApiErrorMessage, type ApiFieldErrors } from '../../services/apiError'
+import { getRuntimeConfig } from '../../config/runtime'
 import type { CustomerData, TenantExtra, TenantExtraGroup, SelectedExtra } from '../../types'
 
 const formatEuros = (n: number) =>
-  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(n)
+  new Intl.NumberFormat(getRuntimeConfig().locale, { style: 'currency', currency: 'EUR' }).format(n)
 
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 const DNI_RE   = /^[0-9]{8}[A-Za-z]$|^[XYZxyz][0-9]{7}[A-Za-z]$/
@@ -28,6 +30,23 @@ const EMPTY: CustomerData = {
   goldInsurance: false,
 }
 
+/** Campos del backend que no coinciden con el nombre del campo del formulario */
+const BACKEND_FIELD_ALIASES: Record<string, keyof FormErrors> = {
+  file:         'dniPhoto',
+  dniPhotoPath: 'dniPhoto',
+}
+
+/** Traslada los errores por campo del backend a los del formulario, ignorando los desconocidos. */
+function mapBackendFieldErrors(fieldErrors: ApiFieldErrors | null): FormErrors {
+  const e: FormErrors = {}
+  if (!fieldErrors) return e
+  for (const [field, message] of Object.entries(fieldErrors)) {
+    const key = BACKEND_FIELD_ALIASES[field] ?? (field in EMPTY ? field as keyof CustomerData : null)
+    if (key && !e[key]) e[key] = message
+  }
+  return e
+}
+
 function validate(f: CustomerData, requireDni: boolean): FormErrors {
   const e: FormErrors = {}
   if (!f.firstName.trim())   e.firstName   = 'El nombre es obligatorio'
@@ -333,6 +352,7 @@ function DniPhotoUpload({
 
 export function CustomerFormStep() {
   const { state, dispatch } = useWizard()
+  const api = useApiClient()
   const requireDniUpload = state.tenantSettings?.requireDniUpload ?? false
   const initialData = state.customer ?? EMPTY
   const tenantExtras = state.tenantExtras
@@ -340,7 +360,7 @@ export function CustomerFormStep() {
     (tenantExtras.groups.length > 0 || tenantExtras.ungrouped.length > 0)
 
   const [form, setForm]         = useState<CustomerData>(initialData)
-  const [errors, setErrors]     = useState<FormErrors>({})
+  const [errors, setErrors]     = useState<FormErrors>(() => mapBackendFieldErrors(state.customerFieldErrors))
   const [dniFile, setDniFile]   = useState<File | null>(state.dniPhotoFile)
   const [uploading, setUploading] = useState(false)
   const [saving, setSaving]     = useState(false)
@@ -406,14 +426,16 @@ export function CustomerFormStep() {
       if (requireDniUpload && dniFile) {
         setUploading(true)
         try {
-          const uploadResult = await uploadDniPhoto(dniFile, state.tenant)
+          const uploadResult = await api.uploadDniPhoto(dniFile)
           dniPhotoPath = uploadResult.filePath
           dispatch({ type: 'SET_DNI_PHOTO_PATH', path: dniPhotoPath })
         } catch (uploadErr) {
           console.error('[CustomerForm] Error subiendo foto DNI:', uploadErr)
+          const mapped = isApiError(uploadErr) ? mapBackendFieldErrors(uploadErr.fieldErrors) : {}
           setErrors(prev => ({
             ...prev,
-            dniPhoto: `Error al subir la foto: ${uploadErr instanceof Error ? uploadErr.message : 'Error desconocido'}`,
+            ...mapped,
+            dniPhoto: mapped.dniPhoto ?? `Error al subir la foto: ${getApiErrorMessage(uploadErr, 'Error desconocido')}`,
           }))
           return
         } finally {
@@ -421,26 +443,36 @@ export function CustomerFormStep() {
         }
       }
 
-      // 2. Guardar el archivo en el contexto (para referencia visual)
+      // 2. Crear lead en el backend. Si rechaza algún campo del formulario,
+      //    se muestra junto al campo; cualquier otro fallo no bloquea.
+      const firstUnit = state.selectedUnits[0]
+      try {
+        const res = await api.createLead({
+          firstName: form.firstName,
+          lastName: form.lastName,
+          email: form.email,
+          phone: form.phone,
+          storageUnitId: firstUnit?.id,
+          currentStep: 'FORM',
+        })
+        dispatch({ type: 'SET_LEAD_ID', leadId: res.leadId })
+      } catch (err) {
+        const mapped = isApiError(err) && err.code === 'VALIDATION'
+          ? mapBackendFieldErrors(err.fieldErrors)
+          : {}
+        if (Object.keys(mapped).length > 0) {
+          setErrors(mapped)
+          return
+        }
+        console.warn('[CustomerForm] No se pudo crear el lead:', err)
+      }
+
+      // 3. Guardar el archivo en el contexto (para referencia visual)
       dispatch({ type: 'SET_DNI_PHOTO_FILE', file: dniFile })
 
-      // 3. Guardar datos del cliente en el contexto
+      // 4. Guardar datos del cliente en el contexto
       dispatch({ type: 'SET_CUSTOMER', customer: form })
 
-      // 4. Crear lead en el backend (best-effort, no bloquea si falla)
-      const firstUnit = state.selectedUnits[0]
-      createLead({
-        tenantSlug: state.tenant,
-        firstName: form.firstName,
-        lastName: form.lastName,
-        email: form.email,
-        phone: form.phone,
-        storageUnitId: firstUnit?.id,
-        currentStep: 'FORM',
-      })
-        .then(res => dispatch({ type: 'SET_LEAD_ID', leadId: res.leadId }))
-        .catch(err => console.warn('[CustomerForm] No se pudo crear el lead:', err))
-
       dispatch({ type: 'NEXT_STEP' })
     } finally {
       setSaving(false)
@@ -1,30 +1,96 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { PlanoSVG } from '../../components/PlanoSVG'
+import { FloorSwitcher } from '../../components/FloorSwitcher'
+import { TakenUnitsNotice } from '../../components/TakenUnitsNotice'
+import { UnitSearch } from '../components/UnitSearch'
+import { UnitList } from '../components/UnitList'
+import {
+  buildPlanHeatmap,
+  HEATMAP_FILTERED,
+  HEATMAP_UNAVAILABLE,
+  LEGEND_PATTERN_STYLES,
+  PLAN_COLOR_MODES,
+  PLAN_COLORS,
+  type PlanColorMode,
+  type PlanHeatmap,
+  type PlanPattern,
+} from '../../components/planColors'
+import {
+  buildAttributeFilters,
+  countAttributeMatches,
+  matchesAttributeFilters,
+  type AttributeFilter,
+} from '../../components/unitAttributes'
 import { useWizard } from '../WizardContext'
 import { Button } from '../../components/Button'
-import { getPlan } from '../../services/api'
+import { useApiClient } from '../../services/apiClientContext'
+import { isAbortError } from '../../services/api'
+import { getApiErrorMessage, isApiError } from '../../services/apiError'
+import { subscribeToUnitStatus, applyStatusChanges } from '../../services/unitStatus'
 import { getLocalPlanSvgUrl } from '../../config/localPlans'
-import { calcProportionalPayment, formatEuros } from '../utils'
-import type { StorageUnit } from '../../types'
-
-const LEGEND: [string, string][] = [
-  ['#D19E02', 'Disponible'],
-  ['#89D102', 'Seleccionado'],
-  ['#D14402', 'Ocupado / Reservado'],
-  ['#A17902', 'Fuera de filtro'],
+import { getRuntimeConfig } from '../../config/runtime'
+import { acquireHold, DEFAULT_HOLD_MINUTES } from '../useUnitHold'
+import { calcProportionalPayment, formatEuros, readPreference, writePreference } from '../utils'
+import type { PlanFloor, StorageUnit } from '../../types'
+
+type LegendEntry = [color: string, label: string, pattern: PlanPattern | null]
+
+const LEGEND: LegendEntry[] = [
+  [PLAN_COLORS.available, 'Disponible', null],
+  [PLAN_COLORS.selected, 'Seleccionado', 'outline'],
+  [PLAN_COLORS.occupied, 'Ocupado / Reservado', 'hatch'],
+  [PLAN_COLORS.filtered, 'Fuera de filtro', 'dots'],
 ]
 
+/** Con un degradado activo solo quedan con color propio los estados que no entran en la escala */
+const HEATMAP_LEGEND: LegendEntry[] = [
+  [PLAN_COLORS.selected, 'Seleccionado', 'outline'],
+  [HEATMAP_UNAVAILABLE, 'Ocupado / Reservado', 'hatch'],
+  [HEATMAP_FILTERED, 'Fuera de filtro', 'dots'],
+]
+
+/** Clave de localStorage con la preferencia de tramas del visitante */
+const PATTERNS_PREFERENCE = 'planPatterns'
+
+/** Plano, tabla o tarjetas; la elección del visitante se guarda en localStorage */
+type UnitsView = 'plan' | 'list' | 'grid'
+const VIEW_PREFERENCE = 'unitsView'
+const UNITS_VIEWS: { id: UnitsView; label: string }[] = [
+  { id: 'plan', label: 'Plano' },
+  { id: 'list', label: 'Lista' },
+  { id: 'grid', label: 'Tarjetas' },
+]
+
+function readViewPreference(): UnitsView | null {
+  const stored = readPreference(VIEW_PREFERENCE)
+  return UNITS_VIEWS.some(v => v.id === stored) ? stored as UnitsView : null
+}
+
 // Breakpoint: el plano pasa a modal cuando la ventana es <= 767px
 const MODAL_BREAKPOINT = 767
 
+function countByFloor(units: StorageUnit[], include: (u: StorageUnit) => boolean): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const u of units) {
+    if (include(u)) counts.set(u.floorId, (counts.get(u.floorId) ?? 0) + 1)
+  }
+  return counts
+}
+
 export function StorageSelectionStep() {
   const { state, dispatch } = useWizard()
-  const { tenant, selectedUnits, startMode } = state
+  const api = useApiClient()
+  const { tenant, selectedUnits, startMode, hold, sessionId, tenantSettings } = state
 
-  const [svgUrl, setSvgUrl]             = useState<string | null>(null)
+  const [floors, setFloors]             = useState<PlanFloor[]>([])
   const [storageUnits, setStorageUnits] = useState<StorageUnit[]>([])
+  // Al volver al paso se abre la planta del primer trastero elegido
+  const [activeFloorId, setActiveFloorId] = useState<string | null>(() => selectedUnits[0]?.floorId ?? null)
   const [loading, setLoading]           = useState(true)
   const [error, setError]               = useState<string | null>(null)
+  /** Trasteros quitados de la selección porque otra persona los ha reservado */
+  const [takenUnits, setTakenUnits]     = useState<StorageUnit[]>([])
+  const [holding, setHolding]           = useState(false)
 
   // ── Modal del plano para pantallas pequeñas ─────────────────────────
   const [showMapModal, setShowMapModal] = useState(false)
@@ -58,41 +124,214 @@ export function StorageSelectionStep() {
   const [maxPriceInput, setMaxPriceInput]           = useState<string>('')   // raw text
   const maxPrice = maxPriceInput.trim() === '' ? null : Number(maxPriceInput)
 
+  // Chips de características activos, por id (ver attributeFilters más abajo)
+  const [attributeFilterIds, setAttributeFilterIds] = useState<string[]>([])
+
   const clearFilters = () => {
     setFilterByDimensions(null)
     setMaxPriceInput('')
+    setAttributeFilterIds([])
   }
 
-  const hasFilters = filterByDimensions !== null || maxPriceInput.trim() !== ''
+  const hasFilters = filterByDimensions !== null || maxPriceInput.trim() !== '' || attributeFilterIds.length > 0
+
+  // ── Modo de color del plano ────────────────────────────────────────
+  const [colorMode, setColorMode] = useState<PlanColorMode>('status')
+
+  // Tramas para daltónicos: manda lo que elija el visitante; si no ha elegido, el tenant
+  const [patternsPreference, setPatternsPreference] = useState<boolean | null>(() => {
+    const stored = readPreference(PATTERNS_PREFERENCE)
+    return stored === null ? null : stored === 'on'
+  })
+  const patterns = patternsPreference ?? tenantSettings?.planPatterns ?? false
+  const togglePatterns = () => {
+    setPatternsPreference(!patterns)
+    writePreference(PATTERNS_PREFERENCE, patterns ? 'off' : 'on')
+  }
 
   // ── Plan loading ───────────────────────────────────────────────────
-  const loadPlan = useCallback(async () => {
+  const loadPlan = useCallback(async (signal?: AbortSignal) => {
     setLoading(true)
     setError(null)
     try {
-      const localSvgUrl = getLocalPlanSvgUrl(tenant)
-      const data = await getPlan(tenant, { requireSvgUrl: !localSvgUrl })
-      const resolvedSvgUrl = localSvgUrl ?? data.svgUrl
-      if (!resolvedSvgUrl) throw new Error('No se pudo resolver la URL del plano')
-      setSvgUrl(resolvedSvgUrl)
+      // Sin SVG también se puede elegir: desde la lista
+      const data = await api.getPlan({ requireSvgUrl: false, signal })
+      // Los SVG locales sustituyen a los del backend, planta a planta
+      const resolvedFloors = data.floors.map((floor, i) => ({
+        ...floor,
+        svgUrl: getLocalPlanSvgUrl(tenant, i) ?? floor.svgUrl,
+      }))
+      setFloors(resolvedFloors)
       setStorageUnits(data.storageUnits)
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Error cargando el plano')
+      if (isAbortError(e)) return
+      setError(getApiErrorMessage(e, 'Error cargando el plano'))
     } finally {
-      setLoading(false)
+      if (!signal?.aborted) setLoading(false)
     }
-  }, [tenant])
+  }, [api, tenant])
 
-  useEffect(() => { loadPlan() }, [loadPlan])
+  useEffect(() => {
+    const controller = new AbortController()
+    loadPlan(controller.signal)
+    return () => controller.abort()
+  }, [loadPlan])
+
+  // ── Disponibilidad en tiempo real ──────────────────────────────────
+  const planReady = !loading && !error
+  const { liveAvailability, unitHolds } = getRuntimeConfig().features
+  useEffect(() => {
+    if (!planReady || !liveAvailability) return
+    return subscribeToUnitStatus(api, changes =>
+      setStorageUnits(prev => applyStatusChanges(prev, changes))
+    )
+  }, [api, planReady, liveAvailability])
+
+  // Los trasteros bloqueados por este visitante llegan como RESERVED;
+  // para él siguen estando disponibles
+  const visibleUnits = useMemo(() => {
+    if (!hold) return storageUnits
+    const held = new Set(hold.storageUnitIds)
+    return storageUnits.map(u =>
+      held.has(u.id) && u.status === 'RESERVED' ? { ...u, status: 'AVAILABLE' as const } : u
+    )
+  }, [storageUnits, hold])
+
+  // Si un trastero seleccionado deja de estar disponible, se quita y se avisa.
+  // Mientras se pide el bloqueo no: los trasteros que se están bloqueando ya
+  // llegan como RESERVED (son los del propio visitante) y `hold` aún no los incluye.
+  useEffect(() => {
+    if (holding || visibleUnits.length === 0) return
+    const statusById = new Map(visibleUnits.map(u => [u.id, u.status]))
+    const taken = selectedUnits.filter(u => {
+      const status = statusById.get(u.id)
+      return status !== undefined && status !== 'AVAILABLE'
+    })
+    if (taken.length === 0) return
+    dispatch({ type: 'DROP_UNITS', unitIds: taken.map(u => u.id) })
+    setTakenUnits(prev => [...prev.filter(p => !taken.some(t => t.id === p.id)), ...taken])
+  }, [holding, visibleUnits, selectedUnits, dispatch])
+
+  // Selección al día, para comprobarla después del await de handleContinue
+  const selectedRef = useRef(selectedUnits)
+  useEffect(() => { selectedRef.current = selectedUnits }, [selectedUnits])
+
+  // ── Plantas ────────────────────────────────────────────────────────
+  const activeFloor = floors.find(f => f.id === activeFloorId) ?? floors[0] ?? null
+  const floorUnits = useMemo(
+    () => activeFloor ? visibleUnits.filter(u => u.floorId === activeFloor.id) : [],
+    [visibleUnits, activeFloor],
+  )
+
+  // Características: solo los chips que algún trastero cumple; el recuento es de libres
+  const attributeFilters = useMemo(() => buildAttributeFilters(storageUnits), [storageUnits])
+  const activeAttributeFilters = useMemo(
+    () => attributeFilters.filter(f => attributeFilterIds.includes(f.id)),
+    [attributeFilters, attributeFilterIds],
+  )
+  const attributeCounts = useMemo(
+    () => countAttributeMatches(
+      visibleUnits.filter(u =>
+        u.status === 'AVAILABLE'
+        && (filterByDimensions === null || u.dimensions === filterByDimensions)
+        && (maxPrice === null || u.price <= maxPrice)
+      ),
+      attributeFilters,
+      activeAttributeFilters,
+    ),
+    [visibleUnits, filterByDimensions, maxPrice, attributeFilters, activeAttributeFilters],
+  )
+  // Un chip de planta sustituye al que hubiera de otra planta
+  const toggleAttributeFilter = (filter: AttributeFilter) => {
+    setAttributeFilterIds(ids => ids.includes(filter.id)
+      ? ids.filter(id => id !== filter.id)
+      : [...ids.filter(id => !filter.group || attributeFilters.find(f => f.id === id)?.group !== filter.group), filter.id])
+  }
+
+  const availableByFloor = useMemo(
+    () => countByFloor(visibleUnits, u =>
+      u.status === 'AVAILABLE'
+      && (filterByDimensions === null || u.dimensions === filterByDimensions)
+      && (maxPrice === null || u.price <= maxPrice)
+      && matchesAttributeFilters(u, activeAttributeFilters)
+    ),
+    [visibleUnits, filterByDimensions, maxPrice, activeAttributeFilters],
+  )
+  const selectedByFloor = useMemo(() => countByFloor(selectedUnits, () => true), [selectedUnits])
+  // La escala abarca todas las plantas para que el mismo color signifique lo mismo en cada una
+  const heatmap = useMemo(() => buildPlanHeatmap(colorMode, visibleUnits), [colorMode, visibleUnits])
 
   const handleToggle = useCallback(
     (unit: StorageUnit) => dispatch({ type: 'TOGGLE_UNIT', unit }),
     [dispatch]
   )
 
+  // ── Vista: plano, lista o tarjetas ─────────────────────────────────
+  // Sin ningún SVG solo quedan la lista y las tarjetas (lista por defecto)
+  const [viewPreference, setViewPreference] = useState<UnitsView | null>(readViewPreference)
+  const hasPlan = floors.some(f => f.svgUrl)
+  const view: UnitsView = hasPlan
+    ? viewPreference ?? 'plan'
+    : viewPreference === 'grid' ? 'grid' : 'list'
+
+  // ── Buscador ───────────────────────────────────────────────────────
+  // El nonce hace que buscar otra vez el mismo trastero lo vuelva a mostrar
+  const [locate, setLocate] = useState<{ unitId: string; nonce: number } | null>(null)
+  const locateUnit = (unit: StorageUnit) => {
+    setActiveFloorId(unit.floorId)
+    setLocate(prev => ({ unitId: unit.id, nonce: (prev?.nonce ?? 0) + 1 }))
+    // En móvil el plano solo se ve en el modal
+    if (isMobile && view === 'plan') setShowMapModal(true)
+  }
+  const changeView = (next: UnitsView) => {
+    setViewPreference(next)
+    writePreference(VIEW_PREFERENCE, next)
+    setLocate(null)
+  }
+  // Al cambiar de planta a mano se olvida la búsqueda (no debe repetirse al volver)
+  const selectFloor = (floorId: string) => {
+    setActiveFloorId(floorId)
+    setLocate(null)
+  }
+
+  // Al continuar se bloquean los trasteros mientras el cliente completa el resto
+  const handleContinue = async () => {
+    if (!unitHolds) {
+      dispatch({ type: 'NEXT_STEP' })
+      return
+    }
+    setHolding(true)
+    try {
+      const next = await acquireHold(api, {
+        sessionId,
+        storageUnitIds: selectedUnits.map(u => u.id),
+        durationMinutes: tenantSettings?.holdMinutes ?? DEFAULT_HOLD_MINUTES,
+        current: hold,
+      })
+      dispatch({ type: 'SET_HOLD', hold: next })
+    } catch (err) {
+      const failedIds = isApiError(err) && err.code === 'UNIT_NOT_AVAILABLE'
+        ? new Set(err.failedUnits.map(f => f.storageUnitId))
+        : new Set<string>()
+      const taken = selectedUnits.filter(u => failedIds.has(u.id))
+      if (taken.length > 0) {
+        dispatch({ type: 'DROP_UNITS', unitIds: taken.map(u => u.id) })
+        setTakenUnits(prev => [...prev.filter(p => !failedIds.has(p.id)), ...taken])
+        setHolding(false)
+        return
+      }
+      // Sin bloqueo se puede seguir: la confirmación vuelve a comprobar la disponibilidad
+      console.warn('[Wizard] No se pudo bloquear la selección:', err)
+    }
+    setHolding(false)
+    // Durante la espera el visitante puede haber quitado todos los trasteros
+    if (selectedRef.current.length === 0) return
+    dispatch({ type: 'NEXT_STEP' })
+  }
+
   const dimensionGroups = useMemo(() => {
     const map = new Map<number, { label: string; available: number }>()
-    for (const u of storageUnits) {
+    for (const u of visibleUnits) {
       const ex = map.get(u.dimensions)
       if (ex) {
         if (u.status === 'AVAILABLE') ex.available++
@@ -106,7 +345,7 @@ export function StorageSelectionStep() {
     return [...map.entries()]
       .map(([d, v]) => ({ dimensions: d, ...v }))
       .sort((a, b) => a.dimensions - b.dimensions)
-  }, [storageUnits])
+  }, [visibleUnits])
 
   const totalMonthly = selectedUnits.reduce((s, u) => s + u.price, 0)
   const proportional = startMode === 'immediate' ? calcProportionalPayment(totalMonthly) : 0
@@ -124,7 +363,7 @@ export function StorageSelectionStep() {
     return (
       <div className="text-center py-20 space-y-4">
         <p className="text-red-500 text-sm">{error}</p>
-        <Button onClick={loadPlan}>Reintentar</Button>
+        <Button onClick={() => loadPlan()}>Reintentar</Button>
       </div>
     )
   }
@@ -132,23 +371,38 @@ export function StorageSelectionStep() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 flex flex-col gap-5">
 
+      {takenUnits.length > 0 && (
+        <TakenUnitsNotice units={takenUnits} onDismiss={() => setTakenUnits([])} />
+      )}
+
       {/* ── Panel de filtros (siempre visible, en columna o fila según breakpoint) */}
       {/* En móvil va arriba del botón; en desktop forma la columna derecha */}
 
       {/* Mobile: botón para abrir el plano + filtros en fila compacta */}
       {isMobile && (
         <div className="flex flex-col gap-3">
+          <ViewSwitch value={view} onChange={changeView} withPlan={hasPlan} />
+
           {/* Botón ver plano */}
-          <button
-            type="button"
-            onClick={() => setShowMapModal(true)}
-            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 active:scale-[0.98] text-white font-semibold rounded-2xl px-4 py-3.5 transition-all shadow-sm"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-            </svg>
-            Ver plano interactivo
-          </button>
+          {view === 'plan' && (
+            <button
+              type="button"
+              onClick={() => setShowMapModal(true)}
+              className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 active:scale-[0.98] text-white font-semibold rounded-2xl px-4 py-3.5 transition-all shadow-sm"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+              </svg>
+              Ver plano interactivo
+            </button>
+          )}
+
+          <UnitSearch
+            units={visibleUnits}
+            selectedUnits={selectedUnits}
+            onLocate={locateUnit}
+            onToggle={handleToggle}
+          />
 
           {/* Filtros compactos en fila */}
           <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 flex flex-col gap-3">
@@ -175,6 +429,14 @@ export function StorageSelectionStep() {
                 </button>
               ))}
             </div>
+            {attributeFilters.length > 0 && (
+              <AttributeChips
+                filters={attributeFilters}
+                activeIds={attributeFilterIds}
+                counts={attributeCounts}
+                onToggle={toggleAttributeFilter}
+              />
+            )}
             <div className="relative">
               <input type="number" min={0} placeholder="Precio máximo (€/mes)"
                 value={maxPriceInput} onChange={e => setMaxPriceInput(e.target.value)}
@@ -183,6 +445,20 @@ export function StorageSelectionStep() {
               <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">€/mes</span>
             </div>
           </div>
+
+          {view !== 'plan' && (
+            <UnitList
+              units={visibleUnits}
+              floors={floors}
+              layout={view}
+              selectedUnits={selectedUnits}
+              filterByDimensions={filterByDimensions}
+              maxPrice={maxPrice}
+              attributeFilters={activeAttributeFilters}
+              onToggle={handleToggle}
+              locate={locate}
+            />
+          )}
         </div>
       )}
 
@@ -194,28 +470,60 @@ export function StorageSelectionStep() {
           <div className="min-w-0 w-full lg:w-[80%]">
             <div className="bg-white rounded-3xl border border-gray-200 shadow-sm p-3 flex flex-col gap-2">
 
-              <h2 className="text-base font-semibold text-gray-900">
-                Selecciona uno o varios trasteros
-              </h2>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-base font-semibold text-gray-900">
+                  Selecciona uno o varios trasteros
+                </h2>
+                <ViewSwitch value={view} onChange={changeView} withPlan={hasPlan} />
+              </div>
 
-              {/* Legend */}
-              <div className="flex flex-wrap items-center gap-x-5 gap-y-1.5 px-1 py-2 bg-gray-50 rounded-2xl border border-gray-100">
-                {LEGEND.map(([color, label]) => (
-                  <div key={label} className="flex items-center gap-1.5 text-xs text-gray-600">
-                    <span className="w-3 h-3 rounded shrink-0 inline-block" style={{ backgroundColor: color }} />
-                    {label}
+              {view === 'plan' ? (
+                <>
+                  {activeFloor && (
+                    <FloorSwitcher
+                      floors={floors}
+                      activeFloorId={activeFloor.id}
+                      onSelect={selectFloor}
+                      availableByFloor={availableByFloor}
+                      selectedByFloor={selectedByFloor}
+                    />
+                  )}
+
+                  {/* Legend */}
+                  <div className="flex flex-wrap items-center gap-x-5 gap-y-1.5 px-1 py-2 bg-gray-50 rounded-2xl border border-gray-100">
+                    <PlanLegend heatmap={heatmap} patterns={patterns} />
                   </div>
-                ))}
-              </div>
 
-              {svgUrl && (
-                <PlanoSVG
-                  svgUrl={svgUrl}
-                  storageUnits={storageUnits}
+                  {activeFloor && (activeFloor.svgUrl ? (
+                    <PlanoSVG
+                      key={activeFloor.id}
+                      svgUrl={activeFloor.svgUrl}
+                      storageUnits={floorUnits}
+                      filterByDimensions={filterByDimensions}
+                      maxPrice={maxPrice}
+                      attributeFilters={activeAttributeFilters}
+                      selectedUnits={selectedUnits}
+                      onToggleUnit={handleToggle}
+                      labelMode={tenantSettings?.planLabels}
+                      heatmap={heatmap}
+                      patterns={patterns}
+                      locate={locate}
+                    />
+                  ) : (
+                    <NoPlanNotice onShowList={() => changeView('list')} />
+                  ))}
+                </>
+              ) : (
+                <UnitList
+                  units={visibleUnits}
+                  floors={floors}
+                  layout={view}
+                  selectedUnits={selectedUnits}
                   filterByDimensions={filterByDimensions}
                   maxPrice={maxPrice}
-                  selectedUnits={selectedUnits}
-                  onToggleUnit={handleToggle}
+                  attributeFilters={activeAttributeFilters}
+                  onToggle={handleToggle}
+                  locate={locate}
                 />
               )}
             </div>
@@ -225,6 +533,16 @@ export function StorageSelectionStep() {
           <div className="w-full lg:w-[20%] shrink-0">
             <div className="bg-white rounded-3xl border border-gray-200 shadow-sm p-4 flex flex-col gap-4">
 
+              <div className="flex flex-col gap-1.5">
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Buscar</p>
+                <UnitSearch
+                  units={visibleUnits}
+                  selectedUnits={selectedUnits}
+                  onLocate={locateUnit}
+                  onToggle={handleToggle}
+                />
+              </div>
+
               <div className="flex items-center justify-between">
                 <h3 className="font-semibold text-gray-900 text-sm">Filtros</h3>
                 {hasFilters && (
@@ -252,6 +570,40 @@ export function StorageSelectionStep() {
                 ))}
               </div>
 
+              {attributeFilters.length > 0 && (
+                <div className="flex flex-col gap-1.5">
+                  <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Características</p>
+                  <AttributeChips
+                    filters={attributeFilters}
+                    activeIds={attributeFilterIds}
+                    counts={attributeCounts}
+                    onToggle={toggleAttributeFilter}
+                  />
+                </div>
+              )}
+
+              {view === 'plan' && (
+                <div className="flex flex-col gap-1.5">
+                  <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Colorear por</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {PLAN_COLOR_MODES.map(m => (
+                      <button key={m.id} type="button"
+                        onClick={() => setColorMode(m.id)}
+                        aria-pressed={colorMode === m.id}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-all duration-150 ${
+                          colorMode === m.id
+                            ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                            : 'bg-white text-gray-700 border-gray-200 hover:border-blue-300 hover:text-blue-600'
+                        }`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  <PatternsToggle checked={patterns} onChange={togglePatterns} />
+                </div>
+              )}
+
               <div className="flex flex-col gap-1.5">
                 <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Precio máx.</p>
                 <div className="relative">
@@ -280,14 +632,18 @@ export function StorageSelectionStep() {
           <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
             <div>
               <h2 className="font-semibold text-gray-900 text-base">Plano del almacén</h2>
-              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
-                {LEGEND.map(([color, label]) => (
-                  <div key={label} className="flex items-center gap-1 text-xs text-gray-500">
-                    <span className="w-2.5 h-2.5 rounded shrink-0 inline-block" style={{ backgroundColor: color }} />
-                    {label}
-                  </div>
-                ))}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                <PlanLegend heatmap={heatmap} patterns={patterns} compact />
               </div>
+              <select
+                value={colorMode}
+                onChange={e => setColorMode(e.target.value as PlanColorMode)}
+                className="mt-1.5 rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 outline-none focus:ring-2 focus:ring-blue-200"
+                aria-label="Colorear el plano por"
+              >
+                {PLAN_COLOR_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              <PatternsToggle checked={patterns} onChange={togglePatterns} />
             </div>
             <button
               type="button"
@@ -301,20 +657,47 @@ export function StorageSelectionStep() {
             </button>
           </div>
 
+          {activeFloor && floors.length > 1 && (
+            <div className="px-2 pt-2 shrink-0">
+              <FloorSwitcher
+                floors={floors}
+                activeFloorId={activeFloor.id}
+                onSelect={selectFloor}
+                availableByFloor={availableByFloor}
+                selectedByFloor={selectedByFloor}
+                compact
+              />
+            </div>
+          )}
+
+          {takenUnits.length > 0 && (
+            <div className="px-2 pt-2 shrink-0">
+              <TakenUnitsNotice units={takenUnits} onDismiss={() => setTakenUnits([])} />
+            </div>
+          )}
+
           {/* Plano a pantalla completa — rotado para aprovechar la pantalla vertical */}
           <div className="flex-1 min-h-0 p-2">
-            {svgUrl && (
+            {activeFloor && (activeFloor.svgUrl ? (
               <PlanoSVG
-                svgUrl={svgUrl}
-                storageUnits={storageUnits}
+                key={activeFloor.id}
+                svgUrl={activeFloor.svgUrl}
+                storageUnits={floorUnits}
                 filterByDimensions={filterByDimensions}
                 maxPrice={maxPrice}
+                attributeFilters={activeAttributeFilters}
                 selectedUnits={selectedUnits}
                 onToggleUnit={handleToggle}
                 fitMode="contain"
                 rotated={true}
+                labelMode={tenantSettings?.planLabels}
+                heatmap={heatmap}
+                patterns={patterns}
+                locate={locate}
               />
-            )}
+            ) : (
+              <NoPlanNotice onShowList={() => { setShowMapModal(false); changeView('list') }} />
+            ))}
           </div>
 
           {/* Footer del modal: filtros + botón cerrar */}
@@ -394,6 +777,7 @@ export function StorageSelectionStep() {
                   <div className="flex items-center gap-2 mb-2 pr-7">
                     <span className="w-2 h-2 rounded-full bg-green-500 shrink-0" />
                     <span className="text-sm font-bold text-gray-900">Trastero #{u.number}</span>
+                    {u.floorName && <span className="text-xs text-gray-500">· {u.floorName}</span>}
                   </div>
 
                   {/* Dimensions */}
@@ -441,7 +825,8 @@ export function StorageSelectionStep() {
         </Button>
         <Button
           disabled={selectedUnits.length === 0}
-          onClick={() => dispatch({ type: 'NEXT_STEP' })}
+          loading={holding}
+          onClick={handleContinue}
           className="!px-8 !py-3 !rounded-2xl !text-base !font-semibold"
         >
           Continuar
@@ -453,3 +838,123 @@ export function StorageSelectionStep() {
     </div>
   )
 }
+
+// ─── Subcomponentes ───────────────────────────────────────────────────
+
+/** Chips de características con los trasteros libres que quedarían al pulsarlos */
+function AttributeChips({ filters, activeIds, counts, onToggle }: {
+  filters: AttributeFilter[]
+  activeIds: string[]
+  counts: Map<string, number>
+  onToggle: (filter: AttributeFilter) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {filters.map(f => {
+        const active = activeIds.includes(f.id)
+        const count = counts.get(f.id) ?? 0
+        return (
+          <button key={f.id} type="button"
+            onClick={() => onToggle(f)}
+            aria-pressed={active}
+            disabled={!active && count === 0}
+            className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-all duration-150 disabled:opacity-40 disabled:cursor-not-allowed ${
+              active
+                ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                : 'bg-white text-gray-700 border-gray-200 hover:border-blue-300 hover:text-blue-600'
+            }`}
+          >
+            {f.label} <span className="opacity-60">({count})</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+/** Selector plano / lista / tarjetas; sin SVG no se ofrece el plano */
+function ViewSwitch({ value, onChange, withPlan }: {
+  value: UnitsView
+  onChange: (view: UnitsView) => void
+  withPlan: boolean
+}) {
+  const views = withPlan ? UNITS_VIEWS : UNITS_VIEWS.filter(v => v.id !== 'plan')
+  return (
+    <div role="group" aria-label="Ver trasteros como" className="inline-flex self-start rounded-xl bg-gray-100 p-0.5">
+      {views.map(v => (
+        <button key={v.id} type="button"
+          onClick={() => onChange(v.id)}
+          aria-pressed={value === v.id}
+          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+            value === v.id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          {v.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/** Planta sin SVG dentro de un centro que sí tiene plano en otras */
+function NoPlanNotice({ onShowList }: { onShowList: () => void }) {
+  return (
+    <div className="flex flex-col items-center gap-3 rounded-2xl border border-dashed border-gray-200 px-4 py-12 text-center">
+      <p className="text-sm text-gray-500">Esta planta no tiene plano.</p>
+      <Button variant="secondary" onClick={onShowList}>Ver los trasteros en lista</Button>
+    </div>
+  )
+}
+
+function heatmapRangeLabels(heatmap: PlanHeatmap): [string, string] {
+  switch (heatmap.mode) {
+    case 'pricePerM2': return [`${formatEuros(heatmap.min)}/m²`, `${formatEuros(heatmap.max)}/m²`]
+    case 'size':       return [`${heatmap.min} m²`, `${heatmap.max} m²`]
+    case 'value':      return ['Cara para su tamaño', 'Mejor oferta']
+  }
+}
+
+function PatternsToggle({ checked, onChange }: { checked: boolean; onChange: () => void }) {
+  return (
+    <label className="mt-1.5 flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none">
+      <input type="checkbox" checked={checked} onChange={onChange} className="w-3.5 h-3.5 accent-blue-600" />
+      Tramas para daltónicos
+    </label>
+  )
+}
+
+/** Leyenda del plano: colores por estado o, con un degradado activo, su escala continua */
+function PlanLegend({ heatmap, patterns, compact = false }: {
+  heatmap: PlanHeatmap | null
+  patterns: boolean
+  compact?: boolean
+}) {
+  const itemClass   = compact ? 'flex items-center gap-1 text-xs text-gray-500' : 'flex items-center gap-1.5 text-xs text-gray-600'
+  const swatchClass = compact ? 'w-2.5 h-2.5 rounded shrink-0 inline-block' : 'w-3 h-3 rounded shrink-0 inline-block'
+  const [minLabel, maxLabel] = heatmap ? heatmapRangeLabels(heatmap) : ['', '']
+
+  return (
+    <>
+      {heatmap && (
+        <div className={itemClass}>
+          <span>{minLabel}</span>
+          <span
+            className={`${compact ? 'w-16' : 'w-28'} h-2.5 rounded-full shrink-0 border border-gray-200`}
+            style={{ background: `linear-gradient(to right, ${heatmap.stops.join(', ')})` }}
+            aria-hidden="true"
+          />
+          <span>{maxLabel}</span>
+        </div>
+      )}
+      {(heatmap ? HEATMAP_LEGEND : LEGEND).map(([color, label, pattern]) => (
+        <div key={label} className={itemClass}>
+          <span
+            className={swatchClass}
+            style={{ backgroundColor: color, ...(patterns && pattern ? LEGEND_PATTERN_STYLES[pattern] : {}) }}
+          />
+          {label}
+        </div>
+      ))}
+    </>
+  )
+}
@@ -2,9 +2,13 @@ import { useState } from 'react'
 import { useWizard } from '../WizardContext'
 import { Button } from '../../components/Button'
 import { PriceSummaryCard } from '../components/PriceSummaryCard'
-import { confirmFullReservation } from '../../services/api'
+import { ReservationRecovery } from '../components/ReservationRecovery'
+import { ROUTE_INSTRUCTIONS, svgDataUrl } from '../../components/planRoute'
+import { describeRouteMap, usePlanRoutes, type FloorRouteMap } from '../usePlanRoutes'
+import { useApiClient } from '../../services/apiClientContext'
+import { isApiError, getApiErrorMessage } from '../../services/apiError'
 import { getStartDate, formatDate, formatEuros, calcProportionalPayment } from '../utils'
-import type { PortalCredentials } from '../../types'
+import type { PortalCredentials, StorageUnit } from '../../types'
 
 const PAYMENT_LABELS: Record<string, string> = {
   card:     'Tarjeta bancaria',
@@ -55,12 +59,71 @@ function CredentialRow({ label, value, copy }: { label: string; value: string; c
   )
 }
 
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/** Imprime solo los planos con la ruta, desde un iframe oculto */
+function printRouteMaps(maps: FloorRouteMap[]) {
+  const pages = maps.map(map => `
+    <section>
+      <h1>Cómo llegar a tu trastero</h1>
+      <p><strong>${escapeHtml(describeRouteMap(map))}</strong></p>
+      <p>${escapeHtml(ROUTE_INSTRUCTIONS)}</p>
+      <img src="${svgDataUrl(map.svg)}" alt="">
+    </section>`).join('')
+  const iframe = document.createElement('iframe')
+  iframe.setAttribute('aria-hidden', 'true')
+  iframe.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden'
+  iframe.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><title>Cómo llegar</title><style>
+    body { font-family: system-ui, sans-serif; margin: 12mm; color: #111 }
+    h1 { font-size: 18pt; margin: 0 0 4mm }
+    section + section { break-before: page }
+    img { width: 100%; border: 1px solid #ddd }
+  </style></head><body>${pages}</body></html>`
+  iframe.onload = () => {
+    iframe.contentWindow?.print()
+    setTimeout(() => iframe.remove(), 1000)
+  }
+  document.body.appendChild(iframe)
+}
+
+function RouteCard({ maps }: { maps: FloorRouteMap[] }) {
+  return (
+    <div className="bg-white rounded-3xl border border-gray-200 p-6 text-left max-w-sm w-full space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Cómo llegar a tu trastero</p>
+        <button
+          type="button"
+          onClick={() => printRouteMaps(maps)}
+          className="text-xs font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+        >
+          Imprimir
+        </button>
+      </div>
+      <p className="text-sm text-gray-600">{ROUTE_INSTRUCTIONS}</p>
+      {maps.map(map => (
+        <figure key={map.floor.id} className="space-y-1">
+          <img
+            src={svgDataUrl(map.svg)}
+            alt={`Plano con la ruta desde la entrada. ${describeRouteMap(map)}`}
+            className="w-full rounded-xl border border-gray-100"
+          />
+          <figcaption className="text-xs text-gray-500">{describeRouteMap(map)}</figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+}
+
 function SuccessScreen({
   credentials,
+  units,
 }: {
   credentials: PortalCredentials | null
+  units: StorageUnit[]
 }) {
   const [showPassword, setShowPassword] = useState(false)
+  const routeMaps = usePlanRoutes(units)
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[65vh] px-4 py-16 text-center space-y-6">
@@ -123,6 +186,8 @@ function SuccessScreen({
         )}
       </div>
 
+      {routeMaps && routeMaps.length > 0 && <RouteCard maps={routeMaps} />}
+
       <div className="bg-gray-50 rounded-3xl border border-gray-200 p-6 text-left max-w-sm w-full space-y-2.5">
         <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Próximos pasos</p>
         <ul className="text-sm text-gray-700 space-y-2">
@@ -164,18 +229,21 @@ function SuccessScreen({
 
 export function SummaryStep() {
   const { state, dispatch } = useWizard()
+  const api = useApiClient()
   const {
-    tenant, selectedUnits, startMode, customer, paymentMethod,
+    tenant, sessionId, selectedUnits, startMode, customer, paymentMethod,
     promotionId, confirmed, leadId, dniPhotoPath, signature,
     selectedExtras, tenantExtras, portalCredentials,
+    failedUnits, hold,
   } = state
 
   const [promoInput, setPromoInput]   = useState(promotionId ?? '')
   const [promoApplied, setPromoApplied] = useState(Boolean(promotionId))
   const [loading, setLoading]          = useState(false)
   const [submitError, setSubmitError]  = useState<string | null>(null)
+  const [hasFieldErrors, setHasFieldErrors] = useState(false)
 
-  if (confirmed) return <SuccessScreen credentials={portalCredentials} />
+  if (confirmed) return <SuccessScreen credentials={portalCredentials} units={selectedUnits} />
 
   if (!customer || !paymentMethod || !startMode) {
     return (
@@ -219,68 +287,74 @@ export function SummaryStep() {
 
   /**
    * Confirmar la reserva:
-   * Llama a confirmFullReservation por cada trastero seleccionado.
-   * Solo cuando el backend confirma → el trastero pasa a OCCUPIED.
+   * Envía de una vez todos los trasteros; el backend reserva todos o ninguno,
+   * así que solo se avanza con un contrato por cada uno (lo comprueba la API).
+   * Cada trastero lleva una clave de idempotencia de la sesión, así que pulsar
+   * "Confirmar" de nuevo tras un corte de red no genera un segundo contrato.
    */
   const handleConfirm = async () => {
     setSubmitError(null)
-    setLoading(true)
+    setHasFieldErrors(false)
 
-    const failed: number[] = []
-    let savedCredentials = portalCredentials
-
-    for (const unit of selectedUnits) {
-      try {
-        const res = await confirmFullReservation({
-          tenantSlug:       tenant,
-          storageUnitId:    unit.id,
-          firstName:        customer.firstName,
-          lastName:         customer.lastName,
-          dni:              customer.dni,
-          phone:            customer.phone,
-          email:            customer.email,
-          address:          customer.address,
-          city:             customer.city,
-          postalCode:       customer.postalCode,
-          startMode,
-          shelfIncluded:    customer.shelfIncluded,
-          premiumInsurance: customer.premiumInsurance,
-          goldInsurance:    customer.goldInsurance,
-          paymentMethod,
-          monthlyPrice:     unit.price,
-          leadId:           leadId ?? undefined,
-          dniPhotoPath:     dniPhotoPath ?? undefined,
-          promotionId:      promotionId ?? undefined,
-          extras:           selectedExtras.length > 0 ? selectedExtras : undefined,
-        })
-        // Guardar credenciales del portal (solo la primera vez)
-        if (!savedCredentials && res.portalCredentials) {
-          savedCredentials = res.portalCredentials
-          dispatch({ type: 'SET_PORTAL_CREDENTIALS', credentials: res.portalCredentials })
-        }
-      } catch (err) {
-        console.error(`[Summary] Error confirmando trastero #${unit.number}:`, err)
-        failed.push(unit.number)
-      }
-    }
+    if (selectedUnits.length === 0) return
 
-    setLoading(false)
-
-    if (failed.length === selectedUnits.length) {
-      const errMsg = failed.length === 1
-        ? 'No se pudo completar la reserva. El trastero puede haber sido reservado por otra persona. Por favor, selecciona otro trastero.'
-        : 'No se pudo completar ninguna reserva. Verifica tu conexión e inténtalo de nuevo.'
-      setSubmitError(errMsg)
-      return
-    }
-
-    if (failed.length > 0) {
-      setSubmitError(
-        `Se reservaron ${selectedUnits.length - failed.length} de ${selectedUnits.length} trasteros. Error en: #${failed.join(', #')}`
-      )
+    setLoading(true)
+    try {
+      const res = await api.confirmReservationBatch({
+        tenantSlug:       tenant,
+        units:            selectedUnits.map(u => ({ storageUnitId: u.id, monthlyPrice: u.price })),
+        firstName:        customer.firstName,
+        lastName:         customer.lastName,
+        dni:              customer.dni,
+        phone:            customer.phone,
+        email:            customer.email,
+        address:          customer.address,
+        city:             customer.city,
+        postalCode:       customer.postalCode,
+        startMode,
+        shelfIncluded:    customer.shelfIncluded,
+        premiumInsurance: customer.premiumInsurance,
+        goldInsurance:    customer.goldInsurance,
+        paymentMethod,
+        leadId:           leadId ?? undefined,
+        dniPhotoPath:     dniPhotoPath ?? undefined,
+        promotionId:      promotionId ?? undefined,
+        extras:           selectedExtras.length > 0 ? selectedExtras : undefined,
+        holdId:           hold?.holdId,
+      }, sessionId)
+
+      if (!portalCredentials && res.portalCredentials) {
+        dispatch({ type: 'SET_PORTAL_CREDENTIALS', credentials: res.portalCredentials })
+      }
+      dispatch({ type: 'SET_FAILED_UNITS', failures: [] })
+      dispatch({ type: 'CONFIRM' })
+    } catch (err) {
+      console.error('[Summary] Error confirmando la reserva:', err)
+      if (isApiError(err) && err.failedUnits.length > 0) {
+        dispatch({ type: 'SET_FAILED_UNITS', failures: err.failedUnits })
+      } else if (isApiError(err) && err.hasFieldErrors) {
+        // Errores de validación de los datos del cliente → se corrigen en el paso 3
+        dispatch({ type: 'SET_CUSTOMER_FIELD_ERRORS', errors: err.fieldErrors })
+        setHasFieldErrors(true)
+      }
+      setSubmitError(describeFailure(err, selectedUnits))
+    } finally {
+      setLoading(false)
     }
+  }
 
-    dispatch({ type: 'CONFIRM' })
+  if (failedUnits.length > 0) {
+    return (
+      <ReservationRecovery
+        failures={failedUnits}
+        selectedUnits={selectedUnits}
+        retrying={loading}
+        error={submitError}
+        onRetry={handleConfirm}
+        onReplace={(unitId, unit) => dispatch({ type: 'REPLACE_UNIT', unitId, unit })}
+        onRemove={unit => dispatch({ type: 'TOGGLE_UNIT', unit })}
+      />
+    )
   }
 
   return (
@@ -309,6 +383,7 @@ export function SummaryStep() {
                 <div key={u.id} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-0">
                   <div>
                     <span className="text-sm font-medium text-gray-800">Trastero #{u.number}</span>
+                    {u.floorName && <span className="text-xs text-gray-500 ml-2">{u.floorName}</span>}
                     <span className="text-xs text-gray-500 ml-2">{u.dimensionsLabel}</span>
                   </div>
                   <span className="text-sm font-semibold text-gray-900">{formatEuros(u.price)}/mes</span>
@@ -410,8 +485,17 @@ export function SummaryStep() {
           </div>
 
           {submitError && (
-            <div className="bg-red-50 border border-red-200 rounded-2xl p-4 text-sm text-red-700">
-              {submitError}
+            <div className="bg-red-50 border border-red-200 rounded-2xl p-4 text-sm text-red-700 space-y-2">
+              <p>{submitError}</p>
+              {hasFieldErrors && (
+                <button
+                  type="button"
+                  onClick={() => dispatch({ type: 'GO_STEP', step: 3 })}
+                  className="text-sm font-semibold text-red-700 underline hover:text-red-900"
+                >
+                  Corregir mis datos
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -460,6 +544,25 @@ export function SummaryStep() {
   )
 }
 
+// ─── Mensajes de error ────────────────────────────────────────────────
+
+/** Mensaje concreto según el código del error y los trasteros afectados. */
+function describeFailure(err: unknown, units: StorageUnit[]): string {
+  if (isApiError(err) && err.failedUnits.length > 0) {
+    const numbers = err.failedUnits
+      .map(f => units.find(u => u.id === f.storageUnitId)?.number)
+      .filter((n): n is number => n !== undefined)
+    const list = numbers.length > 0 ? ` #${numbers.join(', #')}` : ''
+    return err.failedUnits.length === 1
+      ? `No se ha reservado ningún trastero: el trastero${list} no se pudo confirmar.`
+      : `No se ha reservado ningún trastero: los trasteros${list} no se pudieron confirmar.`
+  }
+  if (isApiError(err) && err.code === 'UNIT_NOT_AVAILABLE') {
+    return 'Alguno de los trasteros ya no está disponible. Vuelve a la selección y elige otro.'
+  }
+  return getApiErrorMessage(err, 'No se pudo completar la reserva. Inténtalo de nuevo.')
+}
+
 // ─── Subcomponentes ───────────────────────────────────────────────────
 
 function SummarySection({ title, children }: { title: string; children: React.ReactNode }) {
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react'
+import { useWizard } from './WizardContext'
+import { useApiClient } from '../services/apiClientContext'
+import { isAbortError, type ApiClient } from '../services/api'
+import { sanitizeSvg } from '../services/svgSanitizer'
+import { findPlanRoutes, type PlanRoute } from '../services/wayfinding'
+import { getLocalPlanSvgUrl } from '../config/localPlans'
+import { DEFAULT_ROUTE_COLOR, routeMapSvg } from '../components/planRoute'
+import type { PlanFloor, StorageUnit } from '../types'
+
+/** Plano de una planta con la ruta de la entrada a los trasteros de esa planta */
+export interface FloorRouteMap {
+  floor: PlanFloor
+  /** Trasteros con ruta; los que no se alcanzan desde la puerta no aparecen */
+  units: StorageUnit[]
+  routes: PlanRoute[]
+  /** SVG independiente (plano saneado, destinos resaltados y rutas) para <img> o para rasterizar */
+  svg: string
+}
+
+/** Pie de cada plano: planta y trasteros */
+export function describeRouteMap(map: FloorRouteMap): string {
+  const numbers = map.units.map(u => `#${u.number}`).join(', ')
+  return `${map.floor.name} · ${map.units.length === 1 ? 'Trastero' : 'Trasteros'} ${numbers}`
+}
+
+/**
+ * Prepara un plano con la ruta por cada planta con trasteros de `units`.
+ * Las plantas cuyo SVG no tiene puerta y pasillos se omiten.
+ */
+export async function loadRouteMaps(api: ApiClient, params: {
+  tenant: string
+  units: StorageUnit[]
+  color: string
+  signal?: AbortSignal
+}): Promise<FloorRouteMap[]> {
+  const { tenant, units, color, signal } = params
+  if (units.length === 0) return []
+  // Las plantas sin SVG se saltan más abajo
+  const plan = await api.getPlan({ requireSvgUrl: false, signal })
+
+  const maps: FloorRouteMap[] = []
+  for (const [i, floor] of plan.floors.entries()) {
+    const floorUnits = units.filter(u => u.floorId === floor.id)
+    // Los SVG locales sustituyen a los del backend, como en el paso de selección
+    const svgUrl = getLocalPlanSvgUrl(tenant, i) ?? floor.svgUrl
+    if (floorUnits.length === 0 || !svgUrl) continue
+
+    const res = await fetch(api.getSvgFullUrl(svgUrl), { signal })
+    if (!res.ok) throw new Error(`SVG HTTP ${res.status}`)
+    const { svg } = sanitizeSvg(await res.text())
+    const routes = findPlanRoutes(svg, floorUnits)
+    if (routes.length === 0) continue
+
+    const routed = floorUnits.filter(u => routes.some(r => r.unitId === u.id))
+    maps.push({
+      floor: { ...floor, svgUrl },
+      units: routed,
+      routes,
+      svg: routeMapSvg(svg, routes.map(r => r.points), routed.map(u => u.shapeId), color),
+    })
+  }
+  return maps
+}
+
+/**
+ * Planos con la ruta a los trasteros reservados, para la pantalla de éxito y
+ * el anexo del contrato. `null` mientras se preparan; vacío si el plano no
+ * permite calcular rutas o algo falla (la ruta es un extra: no bloquea nada).
+ */
+export function usePlanRoutes(units: StorageUnit[]): FloorRouteMap[] | null {
+  const { state } = useWizard()
+  const api = useApiClient()
+  const color = state.tenantSettings?.theme?.primaryColor ?? DEFAULT_ROUTE_COLOR
+  const [maps, setMaps] = useState<FloorRouteMap[] | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadRouteMaps(api, { tenant: state.tenant, units, color, signal: controller.signal })
+      .then(setMaps)
+      .catch(err => {
+        if (isAbortError(err)) return
+        console.warn('[usePlanRoutes] No se pudo preparar la ruta al trastero:', err)
+        setMaps([])
+      })
+    return () => controller.abort()
+  }, [api, state.tenant, units, color])
+
+  return maps
+}
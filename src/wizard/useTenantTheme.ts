@@ -0,0 +1,25 @@
+import { useMemo, useSyncExternalStore, type CSSProperties } from 'react'
+import { tenantThemeStyle } from '../config/theme'
+import type { TenantTheme } from '../types'
+
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+function subscribeToSystemScheme(onChange: () => void): () => void {
+  const query = window.matchMedia(DARK_QUERY)
+  query.addEventListener('change', onChange)
+  return () => query.removeEventListener('change', onChange)
+}
+
+const systemPrefersDark = () => window.matchMedia(DARK_QUERY).matches
+
+/**
+ * Tema del tenant listo para el contenedor del wizard: variables CSS y si
+ * va en modo oscuro. Con `colorScheme: 'auto'` sigue al sistema en vivo.
+ */
+export function useTenantTheme(theme: TenantTheme | undefined): { style: CSSProperties; dark: boolean } {
+  const prefersDark = useSyncExternalStore(subscribeToSystemScheme, systemPrefersDark, () => false)
+  const scheme = theme?.colorScheme ?? 'light'
+  const dark = scheme === 'dark' || (scheme === 'auto' && prefersDark)
+  const style = useMemo(() => tenantThemeStyle(theme, dark), [theme, dark])
+  return { style, dark }
+}
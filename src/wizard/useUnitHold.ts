@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react'
+import { useWizard } from './WizardContext'
+import { useApiClient } from '../services/apiClientContext'
+import { isApiError } from '../services/apiError'
+import type { ApiClient } from '../services/api'
+import type { UnitHold } from '../types'
+
+/** Duración del bloqueo si el tenant no configura `holdMinutes` */
+export const DEFAULT_HOLD_MINUTES = 15
+/** Como mucho una renovación por actividad cada minuto */
+const RENEW_THROTTLE_MS = 60_000
+
+/**
+ * Crea el bloqueo de los trasteros o, si ya existe, lo renueva con el nuevo
+ * conjunto. Si el backend ya no conoce el bloqueo (caducado), crea otro.
+ */
+export async function acquireHold(api: ApiClient, params: {
+  sessionId: string
+  storageUnitIds: string[]
+  durationMinutes: number
+  current: UnitHold | null
+}): Promise<UnitHold> {
+  const { current, ...rest } = params
+  if (current) {
+    try {
+      return await api.renewHold(current.holdId, rest.storageUnitIds)
+    } catch (err) {
+      if (!isApiError(err) || err.code !== 'NOT_FOUND') throw err
+    }
+  }
+  return api.createHold(rest)
+}
+
+/**
+ * Mantiene el bloqueo temporal creado al salir del paso 2:
+ *  - lo renueva con la actividad del usuario (throttled)
+ *  - lo ajusta o libera cuando se deseleccionan trasteros
+ *  - marca la caducidad al llegar a `expiresAt`
+ *  - lo libera en RESET y al abandonar la página
+ */
+export function useUnitHold() {
+  const { state, dispatch } = useWizard()
+  const api = useApiClient()
+  const { hold, selectedUnits, confirmed } = state
+
+  const holdRef = useRef(hold)
+  const lastRenewRef = useRef(0)
+
+  // Liberar el bloqueo anterior cuando desaparece sin haberse confirmado
+  useEffect(() => {
+    const previous = holdRef.current
+    holdRef.current = hold
+    if (previous && !hold && !confirmed && !state.holdExpired) {
+      api.releaseHold(previous.holdId)
+    }
+  }, [api, hold, confirmed, state.holdExpired])
+
+  // Deseleccionar trasteros → renovar solo con los que quedan
+  useEffect(() => {
+    if (!hold) return
+    const selectedIds = new Set(selectedUnits.map(u => u.id))
+    const kept = hold.storageUnitIds.filter(id => selectedIds.has(id))
+    if (kept.length === hold.storageUnitIds.length) return
+    if (kept.length === 0) {
+      dispatch({ type: 'CLEAR_HOLD' })
+      return
+    }
+    let cancelled = false
+    api.renewHold(hold.holdId, kept)
+      .then(next => { if (!cancelled) dispatch({ type: 'SET_HOLD', hold: next }) })
+      .catch(err => console.warn('[Hold] No se pudo ajustar el bloqueo:', err))
+    return () => { cancelled = true }
+  }, [api, hold, selectedUnits, dispatch])
+
+  // Caducidad
+  useEffect(() => {
+    if (!hold) return
+    const remaining = Date.parse(hold.expiresAt) - Date.now()
+    const timer = setTimeout(() => dispatch({ type: 'HOLD_EXPIRED' }), Math.max(0, remaining))
+    return () => clearTimeout(timer)
+  }, [hold, dispatch])
+
+  // Renovación por actividad
+  useEffect(() => {
+    if (!hold) return
+    const onActivity = () => {
+      const now = Date.now()
+      if (now - lastRenewRef.current < RENEW_THROTTLE_MS) return
+      lastRenewRef.current = now
+      api.renewHold(hold.holdId)
+        .then(next => dispatch({
+          type: 'SET_HOLD',
+          hold: next.storageUnitIds.length > 0 ? next : { ...next, storageUnitIds: hold.storageUnitIds },
+        }))
+        .catch(err => {
+          console.warn('[Hold] No se pudo renovar el bloqueo:', err)
+          if (isApiError(err) && err.code === 'NOT_FOUND') dispatch({ type: 'HOLD_EXPIRED' })
+        })
+    }
+    window.addEventListener('pointerdown', onActivity)
+    window.addEventListener('keydown', onActivity)
+    return () => {
+      window.removeEventListener('pointerdown', onActivity)
+      window.removeEventListener('keydown', onActivity)
+    }
+  }, [api, hold, dispatch])
+
+  // Abandono: cerrar pestaña o navegar fuera
+  useEffect(() => {
+    const onPageHide = () => {
+      const current = holdRef.current
+      if (current) api.releaseHold(current.holdId, { keepalive: true })
+    }
+    window.addEventListener('pagehide', onPageHide)
+    return () => window.removeEventListener('pagehide', onPageHide)
+  }, [api])
+}
@@ -1,4 +1,31 @@
-import type { StartMode } from '../types'
+import { getRuntimeConfig } from '../config/runtime'
+import type { StartMode, StorageUnit } from '../types'
+
+/** Identificador de una sesión del wizard; base de las claves de idempotencia. */
+export function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+/** Preferencia del visitante guardada en localStorage (null si no hay o no se puede leer). */
+export function readPreference(key: string): string | null {
+  try {
+    return localStorage.getItem(`reserva:${key}`)
+  } catch {
+    return null
+  }
+}
+
+/** Sin almacenamiento (modo privado, iframe sin permisos) la preferencia dura solo la visita. */
+export function writePreference(key: string, value: string): void {
+  try {
+    localStorage.setItem(`reserva:${key}`, value)
+  } catch {
+    // se ignora
+  }
+}
 
 export function calcProportionalPayment(monthlyPrice: number): number {
   const today = new Date()
@@ -16,14 +43,14 @@ export function getBillingDescription(startMode: StartMode): string {
   if (startMode === 'immediate') {
     const next = new Date()
     next.setMonth(next.getMonth() + 1, 1)
-    return `El día 1 de cada mes (primer cobro completo el 1 de ${next.toLocaleDateString('es-ES', { month: 'long', year: 'numeric' })})`
+    return `El día 1 de cada mes (primer cobro completo el 1 de ${next.toLocaleDateString(getRuntimeConfig().locale, { month: 'long', year: 'numeric' })})`
   }
   const today = new Date()
   return `El día ${today.getDate()} de cada mes (primer cobro el ${today.getDate()} del mes siguiente)`
 }
 
 export function formatEuros(amount: number): string {
-  return new Intl.NumberFormat('es-ES', {
+  return new Intl.NumberFormat(getRuntimeConfig().locale, {
     style: 'currency',
     currency: 'EUR',
     minimumFractionDigits: 2,
@@ -31,9 +58,32 @@ export function formatEuros(amount: number): string {
 }
 
 export function formatDate(iso: string): string {
-  return new Date(iso).toLocaleDateString('es-ES', {
+  return new Date(iso).toLocaleDateString(getRuntimeConfig().locale, {
     day: 'numeric',
     month: 'long',
     year: 'numeric',
   })
 }
+
+/**
+ * Trasteros disponibles más parecidos a `target`: primero los del mismo
+ * tamaño, después por diferencia de m² y de precio.
+ */
+export function findSimilarUnits(
+  target: StorageUnit,
+  candidates: StorageUnit[],
+  excludeIds: Set<string>,
+  limit = 3,
+): StorageUnit[] {
+  return candidates
+    .filter(u => u.status === 'AVAILABLE' && u.id !== target.id && !excludeIds.has(u.id))
+    .map(u => ({
+      unit: u,
+      sameSize: u.dimensions === target.dimensions ? 0 : 1,
+      sizeDiff: Math.abs(u.dimensions - target.dimensions),
+      priceDiff: Math.abs(u.price - target.price),
+    }))
+    .sort((a, b) => a.sameSize - b.sameSize || a.sizeDiff - b.sizeDiff || a.priceDiff - b.priceDiff)
+    .slice(0, limit)
+    .map(c => c.unit)
+}
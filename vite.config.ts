@@ -1,21 +1,31 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { unitEventsStandIn } from './dev/unitEventsStandIn'
+
+const BACKEND = 'http://localhost:3001'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  server: {
-    port: 5173,
-    proxy: {
-      '/api': {
-        target: 'http://localhost:3001',
-        changeOrigin: true,
-      },
-      '/planos': {
-        target: 'http://localhost:3001',
-        changeOrigin: true,
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+  return {
+    plugins: [
+      react(),
+      tailwindcss(),
+      ...(env.DEV_UNIT_EVENTS === 'mock' ? [unitEventsStandIn({ target: BACKEND })] : []),
+    ],
+    server: {
+      port: 5173,
+      proxy: {
+        '/api': {
+          target: BACKEND,
+          changeOrigin: true,
+        },
+        '/planos': {
+          target: BACKEND,
+          changeOrigin: true,
+        },
       },
     },
-  },
+  }
 })